@@ -1,10 +1,24 @@
-import { NextResponse } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
+import { createCandidateHistoryStore } from "@/lib/candidate-history"
+import { verifySessionRequest } from "@/lib/session-token"
 
-export async function POST() {
+const history = createCandidateHistoryStore()
+
+// POST { phone }, with the candidate's X-Session-Token or operator access
+export async function POST(request: NextRequest) {
   try {
-    // Clear the in-memory storage
-    const { messages, parsedResume } = await import("../webhook/route")
-    messages.length = 0
+    const { phone } = await request.json().catch(() => ({}))
+    if (!phone) {
+      return NextResponse.json({ error: "phone is required" }, { status: 400 })
+    }
+
+    const auth = verifySessionRequest(request, phone)
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    // Clears one candidate's stored messages and parsed resume
+    await history.clear(phone)
 
     return NextResponse.json({ success: true })
   } catch (error) {
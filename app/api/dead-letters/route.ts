@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getInboundForwardQueue } from "@/lib/inbound-forwarder"
+import { verifyOperatorRequest } from "@/lib/operator-auth"
+
+const forwardQueue = getInboundForwardQueue()
+
+// Dead-lettered n8n forwards, newest first, plus what is still being retried
+export async function GET(request: NextRequest) {
+  const auth = verifyOperatorRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  const id = request.nextUrl.searchParams.get("id")
+  if (id) {
+    const deadLetter = await forwardQueue.getDeadLetter(id)
+    if (!deadLetter) {
+      return NextResponse.json({ error: "Unknown dead letter" }, { status: 404 })
+    }
+    return NextResponse.json({ deadLetter })
+  }
+
+  const [deadLetters, pending] = await Promise.all([forwardQueue.listDeadLetters(), forwardQueue.listPending()])
+  return NextResponse.json({ deadLetters, pending, timestamp: Date.now() })
+}
+
+// { action: "replay", id } | { action: "replay-all" } | { action: "discard", id }
+export async function POST(request: NextRequest) {
+  const auth = verifyOperatorRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { action, id } = await request.json()
+
+    if (action === "replay") {
+      if (!id) {
+        return NextResponse.json({ error: "id is required" }, { status: 400 })
+      }
+      const result = await forwardQueue.replay(id)
+      if (!result) {
+        return NextResponse.json({ error: "Unknown dead letter" }, { status: 404 })
+      }
+      return NextResponse.json({ id, ...result })
+    }
+
+    if (action === "replay-all") {
+      const results = []
+      for (const deadLetter of await forwardQueue.listDeadLetters()) {
+        const result = await forwardQueue.replay(deadLetter.id)
+        if (result) results.push({ id: deadLetter.id, ok: result.outcome.ok })
+      }
+      return NextResponse.json({ replayed: results.length, succeeded: results.filter((item) => item.ok).length, results })
+    }
+
+    if (action === "discard") {
+      if (!id) {
+        return NextResponse.json({ error: "id is required" }, { status: 400 })
+      }
+      if (!(await forwardQueue.discard(id))) {
+        return NextResponse.json({ error: "Unknown dead letter" }, { status: 404 })
+      }
+      return NextResponse.json({ ok: true, id })
+    }
+
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+  } catch (error) {
+    console.error("[DeadLetters] Error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getConfig } from "@/lib/config"
+
+// Forwards the web chat's "Clear" to n8n so the URL and identities stay server-side
+export async function POST(request: NextRequest) {
+  try {
+    const { toPhone } = await request.json()
+
+    if (!toPhone) {
+      return NextResponse.json({ error: "toPhone is required" }, { status: 400 })
+    }
+
+    const config = getConfig()
+    const response = await fetch(config.n8n.deleteChatHistoryUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        specversion: "1.0",
+        type: "com.twilio.messaging.inbound-message.received",
+        source: "/some-path",
+        id: `clear-${Date.now()}`,
+        dataschema: "https://events-schemas.twilio.com/Messaging.InboundMessageV1/5",
+        datacontenttype: "application/json",
+        time: new Date().toISOString(),
+        data: {
+          numMedia: 0,
+          timestamp: new Date().toISOString(),
+          recipients: [],
+          accountSid: config.twilio.accountSid,
+          messagingServiceSid: config.twilio.messagingServiceSid,
+          to: config.twilio.chatHistoryNumber,
+          numSegments: 1,
+          messageSid: `clear-${Date.now()}`,
+          eventName: "com.twilio.messaging.inbound-message.received",
+          body: "Clear chat history",
+          database: "surikadodb",
+          collection: "n8n_chat_histories",
+          sessionId: String(toPhone),
+        },
+      }),
+    })
+
+    if (!response.ok) {
+      console.error("[Clear] n8n returned", response.status)
+      return NextResponse.json({ error: `n8n returned ${response.status}` }, { status: 502 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("[Clear] Error calling delete API:", error)
+    return NextResponse.json({ error: "Failed to delete chat history" }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createDeliveryStore, isFailedStatus } from "@/lib/delivery-status"
+import { createMessagingProvider, TwimlProvider } from "@/lib/messaging-provider"
+import { verifyOperatorRequest } from "@/lib/operator-auth"
+
+const deliveries = createDeliveryStore()
+
+// Sends a failed message again: POST { messageSid }. Operators only.
+export async function POST(request: NextRequest) {
+  const auth = verifyOperatorRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { messageSid } = await request.json()
+    if (!messageSid) {
+      return NextResponse.json({ error: "messageSid is required" }, { status: 400 })
+    }
+
+    const record = await deliveries.get(messageSid)
+    if (!record) {
+      return NextResponse.json({ error: "Unknown message" }, { status: 404 })
+    }
+    if (!isFailedStatus(record.status) || record.retriedAs) {
+      return NextResponse.json({ error: `Message is ${record.retriedAs ? "already retried" : record.status}` }, { status: 409 })
+    }
+    if (!record.body) {
+      return NextResponse.json({ error: "Message was not sent by this app and cannot be retried" }, { status: 409 })
+    }
+
+    // TwiML can only answer an inbound webhook, not start a new message
+    const provider = createMessagingProvider()
+    if (provider instanceof TwimlProvider) {
+      return NextResponse.json({ error: "Retry needs the twilio or mock messaging provider" }, { status: 501 })
+    }
+
+    const outbound = { to: record.to, from: record.from, body: record.body, mediaUrls: record.mediaUrls }
+    const result = await provider.send(outbound)
+    if (!result.ok || !result.messageSid) {
+      return NextResponse.json({ error: result.error || "Send failed" }, { status: 502 })
+    }
+
+    const retried = await deliveries.recordSent({ messageSid: result.messageSid, ...outbound }, result.status)
+    await deliveries.markRetried(messageSid, result.messageSid)
+
+    console.log(`[Delivery] 🔁 Retried ${messageSid} as ${result.messageSid}`)
+    return NextResponse.json({ ok: true, delivery: retried })
+  } catch (error) {
+    console.error("[Delivery] Retry error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
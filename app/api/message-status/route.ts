@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getConfig } from "@/lib/config"
+import { createDeliveryStore, parseStatusCallback } from "@/lib/delivery-status"
+import { verifySessionRequest } from "@/lib/session-token"
+import { verifyTwilioRequest } from "@/lib/twilio-signature"
+
+const deliveries = createDeliveryStore()
+
+// Twilio delivery status callback (queued, sent, delivered, read, failed, ...)
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text()
+
+    // Signed for the callback URL Twilio was given, when it is configured
+    const verification = verifyTwilioRequest(request, rawBody, getConfig().messaging.statusCallbackUrl)
+    if (!verification.ok) {
+      return NextResponse.json({ error: verification.error }, { status: verification.status })
+    }
+
+    let update
+    try {
+      update = parseStatusCallback(rawBody, request.headers.get("content-type") || "")
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    if (!update) {
+      return NextResponse.json({ error: "MessageSid and a known MessageStatus are required" }, { status: 400 })
+    }
+
+    const record = await deliveries.applyUpdate(update)
+    if (!record) {
+      return NextResponse.json({ error: "Unknown message" }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true, messageSid: record.messageSid, status: record.status })
+  } catch (error) {
+    console.error("[Delivery] Status callback error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Delivery records for one candidate, newest first: GET ?toPhone=whatsapp:+...
+// They include message bodies, so this needs the candidate's X-Session-Token
+// or operator access.
+export async function GET(request: NextRequest) {
+  const toPhone = request.nextUrl.searchParams.get("toPhone")
+  if (!toPhone) {
+    return NextResponse.json({ error: "toPhone is required" }, { status: 400 })
+  }
+
+  const auth = verifySessionRequest(request, toPhone)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  const records = await deliveries.listFor(toPhone)
+  return NextResponse.json({ deliveries: records, timestamp: Date.now() })
+}
@@ -1,9 +1,39 @@
-import { NextResponse } from "next/server"
-import { messages, parsedResume } from "../webhook/route"
-
-export async function GET() {
-  return NextResponse.json({
-    messages,
-    parsedResume,
-  })
-}
\ No newline at end of file
+import { type NextRequest, NextResponse } from "next/server"
+import { createCandidateHistoryStore } from "@/lib/candidate-history"
+import { verifySessionRequest } from "@/lib/session-token"
+
+const history = createCandidateHistoryStore()
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+// An unencoded "+" in a query string arrives as a space
+function phoneParam(value: string | null): string {
+  return (value || "").trim().replace(/\s/g, "+")
+}
+
+// GET /api/messages?phone=whatsapp:+...&before=<cursor>&limit=<n>
+// Newest page first; follow nextCursor for older messages. Needs the
+// candidate's X-Session-Token or operator access.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const phone = phoneParam(params.get("phone"))
+  if (!phone) {
+    return NextResponse.json({ error: "phone is required" }, { status: 400 })
+  }
+
+  const auth = verifySessionRequest(request, phone)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  const limit = params.has("limit") ? Number(params.get("limit")) : DEFAULT_LIMIT
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be an integer between 1 and ${MAX_LIMIT}` }, { status: 400 })
+  }
+
+  const page = await history.list(phone, { before: params.get("before") || undefined, limit })
+  const parsedResume = await history.getResume(phone)
+
+  return NextResponse.json({ ...page, parsedResume })
+}
@@ -1,4 +1,14 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { EventEmitter } from "events"
+import { channelOfIdentity, getChannelAdapter, isChannelId, resolveIdentity, type ChannelId } from "@/lib/channels"
+import { getConfig } from "@/lib/config"
+import { createConversationStore } from "@/lib/conversation-store"
+import { createDeliveryStore } from "@/lib/delivery-status"
+import { createIdempotencyStore } from "@/lib/idempotency"
+import { classifyMessage } from "@/lib/message-classifier"
+import { clientIp, enforceRateLimit } from "@/lib/rate-limit"
+import type { BotReply } from "@/lib/bot-reply"
+import { getWebhookClient } from "@/lib/webhook-client"
 
 // Configuration
 export const maxDuration = 300 // 5 minutes
@@ -8,145 +18,61 @@ export const dynamic = "force-dynamic"
 // Types
 // ============================================
 
-interface ConversationState {
-  startTime: number
-  lastEmptyMessageTime: number
-  completed: boolean
-  userMessage: string
-  webhookCalled: boolean
-  emptyMessageCount: number
-  webhookStartTime?: number
-  processingStarted: boolean
-  isSoftSkillsFollowUp: boolean
-  requestId: string
-}
-
-interface FinalResponse {
-  message: string
-  timestamp: number
-  success: boolean
-}
-
-interface WebhookResult {
-  ok: boolean
+interface ConversationStatus {
+  status: "waiting" | "processing" | "empty" | "completed" | "none"
   message: string
-  duration?: number
-  error?: string
-  status?: string
-}
-
-// ============================================
-// Enhanced Storage with Request Locking
-// ============================================
-
-class ConversationStore {
-  private conversations = new Map<string, ConversationState>()
-  private responses = new Map<string, FinalResponse>()
-  
-  // Track active requests to prevent duplicates
-  private activeRequests = new Map<string, boolean>()
-
-  // Check if user has active request
-  hasActiveRequest(phone: string): boolean {
-    return this.activeRequests.get(phone) || false
-  }
-
-  // Set active request status
-  setActiveRequest(phone: string, active: boolean): void {
-    this.activeRequests.set(phone, active)
-  }
-
-  // Conversation methods
-  setConversation(phone: string, state: ConversationState): void {
-    this.conversations.set(phone, state)
-  }
-
-  getConversation(phone: string): ConversationState | undefined {
-    return this.conversations.get(phone)
-  }
-
-  deleteConversation(phone: string): void {
-    this.conversations.delete(phone)
-    this.activeRequests.delete(phone) // Clean up active request
-  }
-
-  hasConversation(phone: string): boolean {
-    return this.conversations.has(phone)
-  }
-
-  // Response methods
-  setResponse(phone: string, response: FinalResponse): void {
-    this.responses.set(phone, response)
-  }
-
-  getResponse(phone: string): FinalResponse | undefined {
-    return this.responses.get(phone)
-  }
-
-  deleteResponse(phone: string): void {
-    this.responses.delete(phone)
-  }
-
-  // Cleanup old data
-  cleanup(maxAge: number): void {
-    const now = Date.now()
-
-    // Cleanup old conversations
-    for (const [phone, conv] of this.conversations.entries()) {
-      if (now - conv.startTime > maxAge) {
-        this.conversations.delete(phone)
-        this.responses.delete(phone)
-        this.activeRequests.delete(phone)
-        console.log(`[Cleanup] Removed stale conversation: ${phone}`)
-      }
-    }
-
-    // Cleanup old responses
-    for (const [phone, response] of this.responses.entries()) {
-      if (now - response.timestamp > maxAge) {
-        this.responses.delete(phone)
-        console.log(`[Cleanup] Removed stale response: ${phone}`)
-      }
-    }
-  }
+  reply?: BotReply
+  elapsedSeconds?: number
+  webhookElapsed?: number
+  timestamp?: number
+  completed?: boolean
+  success?: boolean
 }
 
 // ============================================
 // Timing Configuration
 // ============================================
 
-const TIMING = {
-  EMPTY_MESSAGE_INTERVAL: 8000, // 8 seconds between empty messages
-  MAX_TOTAL_TIME: 300000, // 5 minutes absolute maximum (300 seconds)
-  WEBHOOK_TIMEOUT: 90000, // 90 seconds for webhook call (1.5 minutes)
-  NORMAL_MESSAGE_TIMEOUT: 25000, // 25 seconds for normal messages
-  CLEANUP_INTERVAL: 60000, // Clean up every minute
-  MAX_CONVERSATION_AGE: 900000, // 15 minutes
-  POLLING_WAIT_TIME: 10000, // Wait 10 seconds before first webhook call
+const TIMING = getConfig().timing
+
+const LIMITS = {
+  MAX_ACTIVE_REQUESTS_PER_PHONE: 3, // Outstanding requests allowed per phone
 }
 
 // ============================================
 // Global Store Instance
 // ============================================
 
-const store = new ConversationStore()
+const store = createConversationStore()
+const idempotency = createIdempotencyStore(TIMING.IDEMPOTENCY_WINDOW)
+const deliveries = createDeliveryStore()
 
 // Start cleanup interval
 setInterval(() => {
-  store.cleanup(TIMING.MAX_CONVERSATION_AGE)
+  Promise.all([
+    store.cleanup(TIMING.MAX_CONVERSATION_AGE),
+    idempotency.cleanup(),
+  ]).catch((error) => {
+    console.error(`[Cleanup] Failed:`, error)
+  })
 }, TIMING.CLEANUP_INTERVAL)
 
+// Notifies open SSE streams in this process as soon as background processing
+// finishes; streams on other workers pick the change up on their next tick.
+const conversationEvents = new EventEmitter()
+conversationEvents.setMaxListeners(0)
+
+// Outbound webhook calls running in this process, so they can be cancelled
+const inFlightRequests = new Map<string, AbortController>()
+
 // ============================================
 // Helper Functions
 // ============================================
 
-function normalizeWhatsApp(raw: unknown): string {
-  if (!raw) return ""
-  let n = String(raw).trim()
-  if (n.toLowerCase().startsWith("whatsapp:")) n = n.slice(9)
-  n = n.replace(/[^+\d]/g, "")
-  if (!n.startsWith("+")) n = `+${n}`
-  return `whatsapp:${n}`
+// Canonical sender identity. Addresses without a channel prefix use the
+// request's `channel` adapter, WhatsApp by default.
+function normalizeSender(raw: unknown, channel?: ChannelId): string {
+  return resolveIdentity(raw, channel)?.identity ?? ""
 }
 
 function getEmptyMessage(count: number): string {
@@ -165,160 +91,18 @@ function getEmptyMessage(count: number): string {
   return messages[count % messages.length]
 }
 
-// ============================================
-// Enhanced Webhook Communication
-// ============================================
-
-class WebhookClient {
-  private readonly endpoints = [
-    "https://surikado.hellodexter.com:5678/webhook/130bb4fe-11e5-4442-9a63-a68de302e144",
-    "https://surikado.hellodexter.com/webhook/130bb4fe-11e5-4442-9a63-a68de302e144",
-  ]
-
-  async sendToWebhook(
-    userPhone: string,
-    userMessage: string,
-    requestId: string,
-    timeoutMs: number
-  ): Promise<WebhookResult> {
-    const payload = this.createWebhookPayload(userPhone, userMessage, requestId)
-    
-    // Try each endpoint with increased timeout and better retry logic
-    for (const url of this.endpoints) {
-      console.log(`[Webhook] 🔄 Trying endpoint: ${url}`)
-      
-      const result = await this.attemptWebhookCall(url, payload, timeoutMs)
-        
-      if (result.ok) {
-        console.log(`[Webhook] ✅ Success with endpoint: ${url}`)
-        return result
-      }
-
-      console.log(`[Webhook] ❌ Endpoint failed: ${url}, error: ${result.error}`)
-      
-      // Wait before trying next endpoint
-      await this.delay(2000)
-    }
+const webhookClient = getWebhookClient()
 
-    return {
-      ok: false,
-      message: "Unable to reach webhook after all attempts",
-      error: "All webhook endpoints failed",
-    }
-  }
-
-  private async attemptWebhookCall(
-    url: string,
-    payload: any,
-    timeoutMs: number
-  ): Promise<WebhookResult> {
-    const startTime = Date.now()
-    
-    try {
-      console.log(`[Webhook] 📡 Calling ${url} (timeout: ${timeoutMs}ms)`)
-
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => {
-        console.log(`[Webhook] ⏱️ Timeout after ${timeoutMs}ms`)
-        controller.abort()
-      }, timeoutMs)
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { 
-          "Content-Type": "application/json",
-          "Accept": "application/json, text/plain, */*"
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal,
-      })
-
-      clearTimeout(timeoutId)
-      const duration = Date.now() - startTime
-
-      if (response.ok) {
-        const responseText = await response.text()
-        console.log(`[Webhook] ✅ Success in ${duration}ms, status: ${response.status}, response:`, responseText)
-
-        // FIXED: Return the actual response text from n8n
-        let message = responseText
-        
-        // Try to parse JSON and extract meaningful content
-        try {
-          const jsonResponse = JSON.parse(responseText)
-          // Extract message from various possible response formats
-          message = jsonResponse.output || jsonResponse.message || jsonResponse.response || jsonResponse.body || responseText
-        } catch {
-          // If not JSON, use the text as is
-          message = responseText
-        }
-
-        // Clean up the message - remove empty or generic responses
-        if (!message || message.trim() === "" || message === "success" || message === "Success") {
-          message = "Thank you for your message! I've received your information and will help you find the best opportunities."
-        }
-
-        return { ok: true, message, duration }
-      }
-
-      // Handle non-200 responses
-      console.log(`[Webhook] ❌ Failed with status ${response.status} in ${duration}ms`)
-      return {
-        ok: false,
-        message: `Webhook returned status ${response.status}`,
-        duration,
-        error: `HTTP ${response.status}`,
-      }
-
-    } catch (error) {
-      const duration = Date.now() - startTime
-      const isTimeout = error instanceof Error && 
-        (error.name === "AbortError" || error.message.includes("aborted"))
-      
-      const errorMsg = isTimeout ? "Timeout" : error instanceof Error ? error.message : "Unknown error"
-      console.log(`[Webhook] ⚠️ Error in ${duration}ms: ${errorMsg}`)
-
-      return {
-        ok: false,
-        message: errorMsg,
-        duration,
-        error: errorMsg,
-      }
-    }
-  }
-
-  private createWebhookPayload(userPhone: string, userMessage: string, requestId: string) {
-    return {
-      specversion: "1.0",
-      type: "com.twilio.messaging.inbound-message.received",
-      source: "/some-path",
-      id: requestId,
-      dataschema: "https://events-schemas.twilio.com/Messaging.InboundMessageV1/5",
-      datacontenttype: "application/json",
-      time: new Date().toISOString(),
-      data: {
-        numMedia: 0,
-        timestamp: new Date().toISOString(),
-        recipients: [],
-        accountSid: "ACxxxx",
-        messagingServiceSid: "MGxxxx",
-        to: "whatsapp:+16098034599",
-        numSegments: 1,
-        messageSid: requestId,
-        eventName: "com.twilio.messaging.inbound-message.received",
-        body: userMessage,
-        from: userPhone,
-      },
-    }
-  }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms))
-  }
+// When n8n also sent the reply over WhatsApp, remember it so status
+// callbacks can be shown against it and a failed send can be retried
+async function trackReplyDelivery(userPhone: string, reply?: BotReply): Promise<void> {
+  const adapter = getChannelAdapter(channelOfIdentity(userPhone))
+  if (!reply?.messageSid || !adapter.viaTwilio) return
+  await deliveries
+    .recordSent({ messageSid: reply.messageSid, to: userPhone, from: adapter.botAddress(getConfig().twilio), body: reply.text })
+    .catch((error) => console.error(`[Delivery] Failed to record ${reply.messageSid}:`, error))
 }
 
-const webhookClient = new WebhookClient()
-
 // ============================================
 // Enhanced Background Processing
 // ============================================
@@ -331,28 +115,42 @@ async function processWebhookInBackground(
   const startTime = Date.now()
   console.log(`[Background] 🚀 Starting API call for ${userPhone}, request: ${requestId}`)
 
+  const controller = new AbortController()
+  inFlightRequests.set(requestId, controller)
+
   try {
     const result = await webhookClient.sendToWebhook(
       userPhone,
       userMessage,
       requestId,
-      TIMING.WEBHOOK_TIMEOUT
+      TIMING.WEBHOOK_TIMEOUT,
+      controller.signal
     )
 
     const duration = Math.floor((Date.now() - startTime) / 1000)
 
+    // Cancelled here, or on another worker (which deletes the conversation)
+    if (result.cancelled || !(await store.hasConversation(requestId))) {
+      console.log(`[Background] 🛑 Request ${requestId} was cancelled after ${duration}s, discarding result`)
+      return
+    }
+
     if (result.ok) {
       console.log(`[Background] ✅ API SUCCESS in ${duration}s`)
-      
+      await trackReplyDelivery(userPhone, result.reply)
+
       // Use the actual message from webhook response
-      store.setResponse(userPhone, {
+      await store.setResponse(requestId, {
+        userPhone,
         message: result.message,
+        reply: result.reply,
         timestamp: Date.now(),
         success: true,
       })
     } else {
       console.error(`[Background] ❌ API FAILED in ${duration}s:`, result.error)
-      store.setResponse(userPhone, {
+      await store.setResponse(requestId, {
+        userPhone,
         message: "Thank you for your response! Our system is processing your information and will get back to you shortly.",
         timestamp: Date.now(),
         success: true,
@@ -363,53 +161,81 @@ async function processWebhookInBackground(
     const duration = Math.floor((Date.now() - startTime) / 1000)
     console.error(`[Background] ⚠️ Exception after ${duration}s:`, error)
 
-    store.setResponse(userPhone, {
+    await store.setResponse(requestId, {
+      userPhone,
       message: "Thank you for sharing your information! We're processing your response and will have personalized job recommendations for you shortly.",
       timestamp: Date.now(),
       success: true,
     })
   } finally {
+    inFlightRequests.delete(requestId)
+
     // Mark conversation as completed and release the active request lock
-    const conversation = store.getConversation(userPhone)
+    const conversation = await store.getConversation(requestId)
     if (conversation) {
       conversation.completed = true
-      store.setConversation(userPhone, conversation)
+      await store.setConversation(requestId, conversation)
     }
     
     // Release the active request lock
-    store.setActiveRequest(userPhone, false)
-    console.log(`[Background] Request completed and lock released for ${userPhone}`)
+    await store.releaseActiveRequest(requestId)
+    console.log(`[Background] Request ${requestId} completed and lock released for ${userPhone}`)
+
+    conversationEvents.emit(requestId)
+  }
+}
+
+// Background processing threw past its own error handling, e.g. because
+// storage failed: record a failed response so the candidate stops waiting
+async function markWebhookFailed(requestId: string, userPhone: string): Promise<void> {
+  inFlightRequests.delete(requestId)
+  await store.setResponse(requestId, {
+    userPhone,
+    message: "Sorry, something went wrong while processing your message. Please try again.",
+    timestamp: Date.now(),
+    success: false,
+  })
+
+  const conversation = await store.getConversation(requestId)
+  if (conversation) {
+    conversation.completed = true
+    await store.setConversation(requestId, conversation)
   }
+  await store.releaseActiveRequest(requestId)
+  conversationEvents.emit(requestId)
 }
 
 // ============================================
 // Enhanced Request Handlers
 // ============================================
 
-async function handlePollRequest(userPhone: string): Promise<NextResponse> {
-  const conversation = store.getConversation(userPhone)
+// Advances the conversation state machine and reports where it stands.
+// Shared by the poll action and the SSE stream.
+// A requestId only resolves for the phone that created it.
+async function getConversationStatus(requestId: string, userPhone: string): Promise<ConversationStatus> {
+  const storedConversation = await store.getConversation(requestId)
+  const conversation = storedConversation?.userPhone === userPhone ? storedConversation : undefined
 
   // Check for stored final response first
   if (!conversation) {
-    const finalResponse = store.getResponse(userPhone)
-    if (finalResponse) {
-      console.log(`[Poll] Found stored final response`)
-      store.deleteResponse(userPhone)
-      store.setActiveRequest(userPhone, false) // Release lock
-      return NextResponse.json({
+    const finalResponse = await store.getResponse(requestId)
+    if (finalResponse && finalResponse.userPhone === userPhone) {
+      console.log(`[Poll] Found stored final response for ${requestId}`)
+      await store.deleteResponse(requestId)
+      await store.releaseActiveRequest(requestId) // Release lock
+      return {
         status: "completed",
         message: finalResponse.message,
+        reply: finalResponse.reply,
         timestamp: finalResponse.timestamp,
         success: finalResponse.success,
-      })
+      }
     }
-    
-    // Also release lock if no conversation found
-    store.setActiveRequest(userPhone, false)
-    return NextResponse.json({
+
+    return {
       status: "none",
-      message: "No active conversation found",
-    })
+      message: "Unknown or expired requestId. Please send a new message.",
+    }
   }
 
   const elapsedSeconds = Math.floor((Date.now() - conversation.startTime) / 1000)
@@ -418,33 +244,34 @@ async function handlePollRequest(userPhone: string): Promise<NextResponse> {
   // Hard timeout (5 minutes)
   if (elapsedSeconds >= TIMING.MAX_TOTAL_TIME / 1000) {
     console.error(`[Poll] HARD TIMEOUT after ${elapsedSeconds}s`)
-    store.deleteConversation(userPhone)
-    store.deleteResponse(userPhone)
-    store.setActiveRequest(userPhone, false) // Release lock
-    return NextResponse.json({
+    await store.deleteConversation(requestId)
+    await store.deleteResponse(requestId)
+    await store.releaseActiveRequest(requestId) // Release lock
+    return {
       status: "completed",
       message: "Thank you for your patience! We've processed your information and will continue our conversation shortly.",
       elapsedSeconds,
       completed: true,
       success: true,
-    })
+    }
   }
 
   // Return completed response
   if (conversation.completed) {
-    const finalResponse = store.getResponse(userPhone)
+    const finalResponse = await store.getResponse(requestId)
     if (finalResponse) {
       console.log(`[Poll] Returning completed response (took ${elapsedSeconds}s total)`)
-      store.deleteConversation(userPhone)
-      store.deleteResponse(userPhone)
-      store.setActiveRequest(userPhone, false) // Release lock
-      return NextResponse.json({
+      await store.deleteConversation(requestId)
+      await store.deleteResponse(requestId)
+      await store.releaseActiveRequest(requestId) // Release lock
+      return {
         status: "completed",
         message: finalResponse.message,
+        reply: finalResponse.reply,
         elapsedSeconds,
         completed: true,
         success: finalResponse.success,
-      })
+      }
     }
   }
 
@@ -453,30 +280,48 @@ async function handlePollRequest(userPhone: string): Promise<NextResponse> {
     // Wait a bit before calling webhook to ensure n8n is ready
     const timeSinceStart = Date.now() - conversation.startTime
     if (timeSinceStart >= TIMING.POLLING_WAIT_TIME) {
+      // The check above spans awaits, so claim the call atomically; a
+      // concurrent poll or SSE tick that loses just reports progress
+      if (!(await store.claimWebhookCall(requestId))) {
+        return {
+          status: "processing",
+          message: "⚡ Processing your soft skills information and finding matching opportunities...",
+          elapsedSeconds,
+          completed: false,
+        }
+      }
+
       console.log(`[Poll] ⏰ Starting API call for soft skills follow-up after ${timeSinceStart}ms`)
       
       conversation.webhookCalled = true
       conversation.webhookStartTime = Date.now()
       conversation.processingStarted = true
-      store.setConversation(userPhone, conversation)
+      await store.setConversation(requestId, conversation)
 
       // Start background processing (don't await)
-      processWebhookInBackground(userPhone, conversation.userMessage, conversation.requestId)
+      processWebhookInBackground(userPhone, conversation.userMessage, requestId)
+        .catch((error) => {
+          console.error(`[Background] 💥 Request ${requestId} failed:`, error)
+          return markWebhookFailed(requestId, userPhone)
+        })
+        .catch((error) => {
+          console.error(`[Background] Could not mark request ${requestId} as failed:`, error)
+        })
 
-      return NextResponse.json({
+      return {
         status: "processing",
         message: "⚡ Processing your soft skills information and finding matching opportunities...",
         elapsedSeconds,
         completed: false,
-      })
+      }
     } else {
       // Still waiting before calling webhook
-      return NextResponse.json({
+      return {
         status: "waiting",
         message: "🔄 Preparing to process your information...",
         elapsedSeconds,
         completed: false,
-      })
+      }
     }
   }
 
@@ -493,25 +338,25 @@ async function handlePollRequest(userPhone: string): Promise<NextResponse> {
     if (timeSinceLastEmpty >= TIMING.EMPTY_MESSAGE_INTERVAL) {
       conversation.lastEmptyMessageTime = Date.now()
       conversation.emptyMessageCount++
-      store.setConversation(userPhone, conversation)
+      await store.setConversation(requestId, conversation)
 
       console.log(`[Poll] Empty message #${conversation.emptyMessageCount} at ${elapsedSeconds}s`)
 
-      return NextResponse.json({
+      return {
         status: "empty",
         message: getEmptyMessage(conversation.emptyMessageCount),
         elapsedSeconds,
         completed: false,
-      })
+      }
     }
 
-    return NextResponse.json({
+    return {
       status: "processing",
       message: "⚡ Processing your information...",
       elapsedSeconds,
       webhookElapsed,
       completed: false,
-    })
+    }
   }
 
   // Send empty messages while waiting
@@ -519,59 +364,107 @@ async function handlePollRequest(userPhone: string): Promise<NextResponse> {
   if (timeSinceLastEmpty >= TIMING.EMPTY_MESSAGE_INTERVAL) {
     conversation.lastEmptyMessageTime = Date.now()
     conversation.emptyMessageCount++
-    store.setConversation(userPhone, conversation)
+    await store.setConversation(requestId, conversation)
 
     console.log(`[Poll] Empty message #${conversation.emptyMessageCount} at ${elapsedSeconds}s`)
 
-    return NextResponse.json({
+    return {
       status: "empty",
       message: getEmptyMessage(conversation.emptyMessageCount),
       elapsedSeconds,
       completed: false,
-    })
+    }
   }
 
   // Still waiting
-  return NextResponse.json({
+  return {
     status: "waiting",
     message: getEmptyMessage(conversation.emptyMessageCount),
     elapsedSeconds,
     completed: false,
-  })
+  }
 }
 
-// Enhanced detection to separate actual soft skills questions from technical skills
-function detectMessageType(userMessage: string): { isSoftSkillsQuestion: boolean; isTechnicalSkills: boolean } {
-  const text = userMessage.toLowerCase()
-  
-  // Actual soft skills QUESTIONS (from bot)
-  const softSkillsQuestions = [
-    "soft skills", "primary skills", "what soft skills",
-    "teamwork", "problem-solving", "communication",
-    "adaptability", "technical leadership", "what are your soft skills",
-    "tell me about your skills", "what skills do you have",
-    "what are your primary skills", "describe your skills"
-  ]
-  
-  // Technical skills keywords
-  const technicalSkills = [
-    "java", "spring", "framework", "sql", "spring boot", "rest api",
-    "git", "docker", "postgresql", "maven", "oracle", "kubernetes",
-    "java ee", "python", "javascript", "react", "node", "aws",
-    "azure", "cloud", "database", "api", "microservices", "devops",
-    "html", "css", "typescript", "angular", "vue", "mongodb",
-    "mysql", "redis", "kafka", "jenkins", "ansible", "terraform"
-  ]
-  
-  const isQuestion = softSkillsQuestions.some(keyword => text.includes(keyword))
-  const isTechnical = technicalSkills.some(skill => text.includes(skill))
-  
-  console.log(`[Server Detection] Question: ${isQuestion}, Technical: ${isTechnical}, Message: ${userMessage}`)
-  
-  return {
-    isSoftSkillsQuestion: isQuestion,
-    isTechnicalSkills: isTechnical && !isQuestion
+async function handlePollRequest(requestId: string, userPhone: string): Promise<NextResponse> {
+  const update = await getConversationStatus(requestId, userPhone)
+  if (update.status === "none") {
+    return NextResponse.json(
+      { ...update, error: `Unknown or expired requestId: ${requestId}` },
+      { status: 404 }
+    )
   }
+  return NextResponse.json(update)
+}
+
+// Wait for the next tick, or wake up early when background processing finishes
+function waitForUpdate(requestId: string, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeoutId)
+      conversationEvents.off(requestId, done)
+      signal.removeEventListener("abort", done)
+      resolve()
+    }
+    const timeoutId = setTimeout(done, TIMING.STREAM_TICK_INTERVAL)
+    conversationEvents.on(requestId, done)
+    signal.addEventListener("abort", done)
+  })
+}
+
+function handleStreamRequest(requestId: string, userPhone: string, signal: AbortSignal): Response {
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!cancelled) controller.enqueue(encoder.encode(chunk))
+      }
+      let lastEvent = ""
+      let lastWrite = Date.now()
+
+      console.log(`[Stream] Opened for ${requestId}`)
+
+      try {
+        while (!signal.aborted && !cancelled) {
+          const update = await getConversationStatus(requestId, userPhone)
+          const key = `${update.status}:${update.message}`
+
+          // Only push when something the client shows has changed
+          if (key !== lastEvent) {
+            send(`event: ${update.status}\ndata: ${JSON.stringify(update)}\n\n`)
+            lastEvent = key
+            lastWrite = Date.now()
+          } else if (Date.now() - lastWrite >= TIMING.STREAM_HEARTBEAT_INTERVAL) {
+            send(`: keep-alive\n\n`)
+            lastWrite = Date.now()
+          }
+
+          if (update.status === "completed" || update.status === "none") break
+
+          await waitForUpdate(requestId, signal)
+        }
+      } catch (error) {
+        console.error(`[Stream] Error for ${requestId}:`, error)
+        send(`event: error\ndata: ${JSON.stringify({ error: "Stream failed" })}\n\n`)
+      } finally {
+        console.log(`[Stream] Closed for ${requestId}`)
+        if (!cancelled) controller.close()
+      }
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
 }
 
 // UPDATED: handleSendRequest - Only use polling for actual soft skills questions
@@ -583,15 +476,15 @@ async function handleSendRequest(
 ): Promise<NextResponse> {
   console.log(`[Send] Message: ${userMessage.substring(0, 50)}, Client SoftSkills: ${isSoftSkillsQuestion}`)
 
-  // FIXED: Server-side detection to separate actual questions from technical skills
-  const serverDetection = detectMessageType(userMessage)
-  const shouldUsePolling = isSoftSkillsQuestion && serverDetection.isSoftSkillsQuestion
+  // Server-side classification with the same shared classifier as the client
+  const classification = classifyMessage(userMessage)
+  const shouldUsePolling = isSoftSkillsQuestion && classification.isSoftSkills
   
-  console.log(`[Send] Server Detection - Question: ${serverDetection.isSoftSkillsQuestion}, Technical: ${serverDetection.isTechnicalSkills}, Final Use Polling: ${shouldUsePolling}`)
+  console.log(`[Send] Classification - Score: ${classification.score}, Technical: ${classification.isTechnicalSkills}, Final Use Polling: ${shouldUsePolling}, Reasons: ${classification.reasons.join("; ")}`)
 
   // Check for active requests first
-  if (store.hasActiveRequest(userPhone)) {
-    console.log(`[Send] ❌ Active request already in progress for ${userPhone}`)
+  if (await store.countActiveRequests(userPhone) >= LIMITS.MAX_ACTIVE_REQUESTS_PER_PHONE) {
+    console.log(`[Send] ❌ Too many active requests in progress for ${userPhone}`)
     return NextResponse.json({
       ok: false,
       error: "Please wait for the current request to complete before sending another message.",
@@ -600,25 +493,18 @@ async function handleSendRequest(
   }
 
   // Set active request immediately
-  store.setActiveRequest(userPhone, true)
+  await store.addActiveRequest(requestId, userPhone)
 
   // Handle ONLY actual soft skills questions with polling
   if (shouldUsePolling) {
     console.log(`[Send] Starting soft skills processing flow for question: ${userMessage}`)
 
-    // Clean up existing conversation if it's completed
-    const existingConversation = store.getConversation(userPhone)
-    if (existingConversation && existingConversation.completed) {
-      console.log(`[Send] Cleaning up completed conversation`)
-      store.deleteConversation(userPhone)
-      store.deleteResponse(userPhone)
-    }
-
     // Start tracking - API will be called during polling after a short delay
-    store.setConversation(userPhone, {
+    await store.setConversation(requestId, {
       startTime: Date.now(),
       lastEmptyMessageTime: Date.now(),
       completed: false,
+      userPhone: userPhone,
       userMessage: userMessage,
       webhookCalled: false,
       emptyMessageCount: 0,
@@ -642,29 +528,38 @@ async function handleSendRequest(
 
   // For ALL other messages (technical skills, normal messages) - call webhook immediately and return response
   console.log(`[Send] Immediate processing for: ${userMessage}`)
+
+  const controller = new AbortController()
+  inFlightRequests.set(requestId, controller)
   
   try {
     const result = await webhookClient.sendToWebhook(
       userPhone,
       userMessage,
       requestId,
-      TIMING.NORMAL_MESSAGE_TIMEOUT
+      TIMING.NORMAL_MESSAGE_TIMEOUT,
+      controller.signal
     )
 
     // Release lock immediately
-    store.setActiveRequest(userPhone, false)
+    inFlightRequests.delete(requestId)
+    await store.releaseActiveRequest(requestId)
+    if (result.ok) await trackReplyDelivery(userPhone, result.reply)
 
     // Return the actual API response directly to frontend
     return NextResponse.json({
       ok: result.ok,
       message: result.message,
+      reply: result.reply,
       error: result.error,
+      cancelled: result.cancelled,
       isSoftSkillsResponse: false,
       requiresPolling: false,
     })
   } catch (error) {
     // Ensure lock is released on error
-    store.setActiveRequest(userPhone, false)
+    inFlightRequests.delete(requestId)
+    await store.releaseActiveRequest(requestId)
     
     console.error(`[Send] Error calling webhook:`, error)
     return NextResponse.json({
@@ -675,6 +570,83 @@ async function handleSendRequest(
   }
 }
 
+// Aborts the outbound webhook call (if it runs in this process), drops the
+// conversation and releases the lock. Another worker running the call will
+// discard its result once it sees the conversation is gone.
+async function handleCancelRequest(requestId: string, userPhone: string): Promise<NextResponse> {
+  const conversation = await store.getConversation(requestId)
+  const controller = inFlightRequests.get(requestId)
+  const isOwner = conversation?.userPhone === userPhone || await store.isActiveRequestFor(requestId, userPhone)
+
+  if (!isOwner) {
+    return NextResponse.json(
+      { ok: false, status: "none", error: `Unknown or expired requestId: ${requestId}` },
+      { status: 404 }
+    )
+  }
+
+  console.log(`[Cancel] Cancelling ${requestId} for ${userPhone}`)
+  controller?.abort()
+
+  await store.deleteConversation(requestId)
+  await store.deleteResponse(requestId)
+  await store.releaseActiveRequest(requestId)
+  await idempotency.release(`send:${userPhone}:${requestId}`)
+
+  // Wake any open stream so it reports the conversation as gone
+  conversationEvents.emit(requestId)
+
+  return NextResponse.json({
+    ok: true,
+    status: "cancelled",
+    requestId,
+    message: "Request cancelled",
+  })
+}
+
+// Runs a send at most once per idempotency key within the window. Replays
+// get the original response back; concurrent duplicates get a 409 with the
+// in-flight status. Failed sends are forgotten so a retry goes through.
+async function withIdempotency(
+  key: string | null,
+  run: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  if (!key) return run()
+
+  const existing = await idempotency.begin(key)
+  if (existing?.state === "completed") {
+    return NextResponse.json(existing.body, {
+      status: existing.statusCode,
+      headers: { "Idempotent-Replayed": "true" },
+    })
+  }
+  if (existing) {
+    return NextResponse.json(
+      {
+        ok: false,
+        status: "processing",
+        duplicate: true,
+        error: "This message is already being processed.",
+      },
+      { status: 409 }
+    )
+  }
+
+  try {
+    const response = await run()
+    const body = await response.clone().json()
+    if (response.ok && body.ok) {
+      await idempotency.complete(key, response.status, body)
+    } else {
+      await idempotency.release(key)
+    }
+    return response
+  } catch (error) {
+    await idempotency.release(key)
+    throw error
+  }
+}
+
 // ============================================
 // Main POST Handler
 // ============================================
@@ -686,20 +658,42 @@ export async function POST(request: NextRequest) {
     const action = data.action || "send"
     const isSoftSkillsQuestion = data.isSoftSkillsQuestion || false
 
-    const userPhone = normalizeWhatsApp(data.toPhone)
+    if (data.channel !== undefined && !isChannelId(data.channel)) {
+      return NextResponse.json(
+        { error: "Invalid channel. Use 'whatsapp', 'sms', 'telegram' or 'web'" },
+        { status: 400 }
+      )
+    }
+
+    const userPhone = normalizeSender(data.toPhone, data.channel)
     if (!userPhone) {
       return NextResponse.json(
-        { error: "toPhone (WhatsApp number) is required" },
+        { error: "toPhone is required (a phone number, or a telegram:/web: identity)" },
         { status: 400 }
       )
     }
 
-    const requestId = `${userPhone}-${Date.now()}`
-    console.log(`[${new Date().toISOString()}] Action: ${action}, Phone: ${userPhone}, SoftSkills: ${isSoftSkillsQuestion}`)
+    console.log(`[${new Date().toISOString()}] Action: ${action}, Phone: ${userPhone}, Request: ${data.requestId}, SoftSkills: ${isSoftSkillsQuestion}`)
 
     // Route to appropriate handler
     if (action === "poll") {
-      return handlePollRequest(userPhone)
+      if (!data.requestId) {
+        return NextResponse.json(
+          { error: "requestId is required to poll" },
+          { status: 400 }
+        )
+      }
+      return handlePollRequest(String(data.requestId), userPhone)
+    }
+
+    if (action === "cancel") {
+      if (!data.requestId) {
+        return NextResponse.json(
+          { error: "requestId is required to cancel" },
+          { status: 400 }
+        )
+      }
+      return handleCancelRequest(String(data.requestId), userPhone)
     }
 
     if (action === "send") {
@@ -709,11 +703,23 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         )
       }
-      return handleSendRequest(userPhone, userMessage, isSoftSkillsQuestion, requestId)
+      // Fall back to a server-generated id for clients that don't send one
+      const requestId = data.requestId ? String(data.requestId) : `${userPhone}-${Date.now()}`
+
+      const limited = await enforceRateLimit("send-message", { ip: clientIp(request), phone: userPhone })
+      if (limited) return limited
+
+      // Only client-supplied keys can be replayed
+      const clientKey = request.headers.get("Idempotency-Key") || data.requestId
+      const idempotencyKey = clientKey ? `send:${userPhone}:${clientKey}` : null
+
+      return withIdempotency(idempotencyKey, () =>
+        handleSendRequest(userPhone, userMessage, isSoftSkillsQuestion, requestId)
+      )
     }
 
     return NextResponse.json(
-      { error: "Invalid action. Use 'send' or 'poll'" },
+      { error: "Invalid action. Use 'send', 'poll' or 'cancel'" },
       { status: 400 }
     )
 
@@ -726,4 +732,46 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// ============================================
+// SSE Stream Handler
+// ============================================
+
+// GET /api/send-message?toPhone=...&requestId=...
+// Streams `waiting`, `processing`, `empty` and `completed` events for the
+// conversation instead of making the client poll every few seconds.
+export async function GET(request: NextRequest) {
+  const channel = request.nextUrl.searchParams.get("channel")
+  const userPhone = normalizeSender(
+    request.nextUrl.searchParams.get("toPhone"),
+    isChannelId(channel) ? channel : undefined
+  )
+  if (!userPhone) {
+    return NextResponse.json(
+      { error: "toPhone is required (a phone number, or a telegram:/web: identity)" },
+      { status: 400 }
+    )
+  }
+
+  const requestId = request.nextUrl.searchParams.get("requestId")
+  if (!requestId) {
+    return NextResponse.json(
+      { error: "requestId is required to stream" },
+      { status: 400 }
+    )
+  }
+
+  // Reject unknown ids up front so the client falls back to a poll and
+  // gets the same 404 explanation
+  const conversation = await store.getConversation(requestId)
+  const response = await store.getResponse(requestId)
+  if (conversation?.userPhone !== userPhone && response?.userPhone !== userPhone) {
+    return NextResponse.json(
+      { status: "none", error: `Unknown or expired requestId: ${requestId}` },
+      { status: 404 }
+    )
+  }
+
+  return handleStreamRequest(requestId, userPhone, request.signal)
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { getWebhookClient } from "@/lib/webhook-client"
+
+export const dynamic = "force-dynamic"
+
+// Circuit breaker state and health of each n8n endpoint, for debugging
+export async function GET() {
+  return NextResponse.json({
+    endpoints: getWebhookClient().getHealth(),
+    timestamp: Date.now(),
+  })
+}
@@ -1,223 +1,226 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-// In-memory storage (in production, use a database)
-const messages: Array<{
-  id: string
-  type: "user" | "system"
-  content: string
-  timestamp: Date
-}> = []
-
-let parsedResume: any = null
+import { parseBotReply } from "@/lib/bot-reply"
+import { createCandidateHistoryStore } from "@/lib/candidate-history"
+import { CloudEventError } from "@/lib/cloudevents"
+import { getConfig } from "@/lib/config"
+import { ingestMediaDocuments, type SourceDocument } from "@/lib/cv-ingestion"
+import { createIdempotencyStore } from "@/lib/idempotency"
+import {
+  buildInboundEvent,
+  deliverReply,
+  forwardInboundEvent,
+  getInboundForwardQueue,
+  type ForwardResult,
+} from "@/lib/inbound-forwarder"
+import { parseInboundRequest, type InboundMessage } from "@/lib/inbound-message"
+import { createMessagingProvider, TwimlProvider } from "@/lib/messaging-provider"
+import { enforceRateLimit } from "@/lib/rate-limit"
+import { mergeResumes, ResumeSchema, type Resume } from "@/lib/resume"
+import { extractResume } from "@/lib/resume-extraction"
+import { verifyTwilioRequest } from "@/lib/twilio-signature"
+
+// Twilio retries deliveries it didn't see acknowledged in time
+const idempotency = createIdempotencyStore(getConfig().timing.IDEMPOTENCY_WINDOW)
+const history = createCandidateHistoryStore()
+const forwardQueue = getInboundForwardQueue()
+
+// The latest resume per candidate, with the CV it was read from
+type StoredResume = Resume & { sourceDocument: SourceDocument | null }
+
+// What the response reports for a forward n8n didn't accept
+type FailedForward = { error: string; queued: boolean; jobId: string }
+
+function twimlResponse(twiml: string, headers: Record<string, string> = {}) {
+  return new NextResponse(twiml, { headers: { "Content-Type": "text/xml", ...headers } })
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-
-    // Extract message from Twilio webhook payload
-    const messageBody = body.data?.body
-    const from = body.data?.from
+    // Signatures are computed over the raw body, so read it before parsing
+    const rawBody = await request.text()
 
-    if (!messageBody) {
-      return NextResponse.json({ error: "No message body found" }, { status: 400 })
+    const verification = verifyTwilioRequest(request, rawBody)
+    if (!verification.ok) {
+      return NextResponse.json({ error: verification.error }, { status: verification.status })
     }
 
-    const externalApiResponse = await sendToExternalAPI(messageBody, body)
-
-    // Add user message
-    const userMessage = {
-      id: Date.now().toString(),
-      type: "user" as const,
-      content: messageBody,
-      timestamp: new Date(),
+    // Classic form-encoded webhook or CloudEvents (structured, binary or
+    // batch), mapped to one shape per message
+    let parsed
+    try {
+      parsed = parseInboundRequest(rawBody, request.headers)
+    } catch (error) {
+      if (error instanceof CloudEventError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
     }
 
-    messages.push(userMessage)
-
-    if (externalApiResponse) {
-      const apiResponseMessage = {
-        id: (Date.now() + 1).toString(),
-        type: "system" as const,
-        content: `API Response: ${JSON.stringify(externalApiResponse, null, 2)}`,
-        timestamp: new Date(),
+    if (parsed.mode !== "batch") {
+      const [item] = parsed.items
+      if ("error" in item) {
+        return NextResponse.json({ error: item.error }, { status: 400 })
       }
-      messages.push(apiResponseMessage)
+      // Twilio's retry token covers the whole request, so only a single message can use it
+      return handleInbound(item.message, request.headers.get("I-Twilio-Idempotency-Token"))
     }
 
-    // Parse the message into resume format
-    const resume = await parseMessageToResume(messageBody, from)
-
-    if (resume) {
-      parsedResume = resume
-
-      // Add system response
-      const systemMessage = {
-        id: (Date.now() + 2).toString(),
-        type: "system" as const,
-        content: 'Resume data parsed successfully! Click "Parse Data" to view details.',
-        timestamp: new Date(),
+    // Each event in a batch is handled on its own, in order; one failing
+    // doesn't stop the rest. 207 tells the sender to look at the results.
+    const results = []
+    for (const item of parsed.items) {
+      if ("error" in item) {
+        results.push({ id: item.eventId, status: 400, response: { error: item.error } })
+        continue
       }
-
-      messages.push(systemMessage)
+      const response = await handleInbound(item.message)
+      results.push({ id: item.eventId, status: response.status, response: await response.json() })
     }
 
-    return NextResponse.json({
-      success: true,
-      messageReceived: messageBody,
-      externalApiResponse: externalApiResponse,
-      resume: resume,
-    })
+    const allAccepted = results.every((result) => result.status < 300)
+    return NextResponse.json({ success: allAccepted, results }, { status: allAccepted ? 200 : 207 })
   } catch (error) {
     console.error("Webhook error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
 }
 
-async function sendToExternalAPI(userMessage: string, originalWebhookData: any) {
+async function handleInbound(inbound: InboundMessage, retryToken?: string | null): Promise<NextResponse> {
+  let idempotencyKey: string | null = null
+
   try {
-    const apiPayload = {
-      specversion: "1.0",
-      type: "com.twilio.messaging.inbound-message.received",
-      source: "/some-path",
-      id: "EZ-random-id",
-      dataschema: "https://events-schemas.twilio.com/Messaging.InboundMessageV1/5",
-      datacontenttype: "application/json",
-      time: new Date().toISOString(),
-      data: {
-        numMedia: originalWebhookData.data?.numMedia || 0,
-        timestamp: new Date().toISOString(),
-        recipients: originalWebhookData.data?.recipients || [],
-        accountSid: originalWebhookData.data?.accountSid || "ACxxxx",
-        messagingServiceSid: originalWebhookData.data?.messagingServiceSid || "MGxxxx",
-        to: originalWebhookData.data?.to || "whatsapp:+16098034599",
-        numSegments: originalWebhookData.data?.numSegments || 1,
-        messageSid: originalWebhookData.data?.messageSid || "SMxxxx",
-        eventName: "com.twilio.messaging.inbound-message.received",
-        body: userMessage, // User's message goes here
-        from: originalWebhookData.data?.from || "whatsapp:+60666388495",
-      },
+    const messageBody = inbound.body
+    const from = inbound.from
+
+    // History and resumes are kept per sender
+    if (!from) {
+      return NextResponse.json({ error: "No sender found" }, { status: 400 })
     }
 
-    console.log("[v0] Sending to external API:", apiPayload)
-
-    const response = await fetch(
-      "http://surikado.hellodexter.com:5678/webhook-test/130bb4fe-11e5-4442-9a63-a68de302e144",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(apiPayload),
-      },
-    )
-
-    if (!response.ok) {
-      console.error("[v0] External API error:", response.status, response.statusText)
-      return { error: `API returned ${response.status}: ${response.statusText}` }
+    // A CV sent on its own arrives as media with an empty body
+    if (!messageBody && inbound.media.length === 0) {
+      return NextResponse.json({ error: "No message body found" }, { status: 400 })
     }
 
-    const responseData = await response.text()
-    console.log("[v0] External API response:", responseData)
+    // Twilio's retry token, else the message or event id
+    const deliveryId = retryToken || inbound.messageSid || inbound.eventId
+    if (deliveryId) {
+      idempotencyKey = `webhook:${deliveryId}`
+      const existing = await idempotency.begin(idempotencyKey)
+      if (existing?.state === "completed") {
+        // Replay the TwiML too, or Twilio's retry would drop the reply
+        const twiml = (existing.body as { twiml?: string } | undefined)?.twiml
+        if (twiml) {
+          return twimlResponse(twiml, { "Idempotent-Replayed": "true" })
+        }
+        return NextResponse.json(existing.body, {
+          status: existing.statusCode,
+          headers: { "Idempotent-Replayed": "true" },
+        })
+      }
+      if (existing) {
+        return NextResponse.json({ error: "Delivery is already being processed" }, { status: 409 })
+      }
+    }
 
-    // Try to parse as JSON, fallback to text
-    try {
-      return JSON.parse(responseData)
-    } catch {
-      return { response: responseData }
+    // After the dedupe, so Twilio's retries of one message don't use up the
+    // sender's tokens. Per sender only: every message arrives from Twilio's own IPs.
+    const limited = await enforceRateLimit("webhook", { phone: from })
+    if (limited) {
+      // A throttled message hasn't been handled; let its retry through later
+      if (idempotencyKey) await idempotency.release(idempotencyKey)
+      return limited
     }
-  } catch (error) {
-    console.error("[v0] Error calling external API:", error)
-    if (error instanceof Error) {
-      return { error: `Failed to call external API: ${error.message}` }
+
+    // Failed forwards go on the retry queue instead of being lost
+    const event = buildInboundEvent(inbound)
+    const forward = await forwardInboundEvent(event)
+    let externalApiResponse: Extract<ForwardResult, { ok: true }>["data"] | FailedForward
+    if (forward.ok) {
+      externalApiResponse = forward.data
+    } else {
+      const job = await forwardQueue.enqueueFailed(event, forward)
+      externalApiResponse = { error: forward.error, queued: forward.retryable, jobId: job.id }
     }
-    return { error: `Failed to call external API: ${String(error)}` }
-  }
-}
 
-async function parseMessageToResume(message: string, from?: string) {
-  // Mock parsing logic - in production, integrate with AI service
-  // This is a simplified example that extracts basic info
-
-  const resume = {
-    email: extractEmail(message) || "user@example.com",
-    firstName: extractFirstName(message) || "John",
-    lastName: extractLastName(message) || "Doe",
-    phoneNumber: from || "whatsapp:+1234567890",
-    hardSkills: extractSkills(message) || "Communication, Problem-solving, Teamwork",
-    softSkills: "Adaptability, Leadership, Time management",
-    shortCVSummary: message.length > 100 ? message.substring(0, 100) + "..." : message,
-    currentOccupation: extractOccupation(message) || "Professional",
-    currentMonthlySalary: extractSalary(message) || 3000,
-    expectedMonthlySalary: (extractSalary(message) || 3000) * 1.3,
-    totalYearsOfExperience: extractExperience(message) || 2,
-    lastJobsExperience: [
-      {
-        companyName: "Previous Company",
-        role: extractOccupation(message) || "Professional",
-        employmentType: "FULL_TIME",
-        startDate: "January 2023",
-        endDate: "Present",
-        description: "Professional experience in the field",
-      },
-    ],
-    status: "ACTIVE",
-    type: "CHAT_BOT",
-    source: "BINARY",
-    id: Math.floor(Math.random() * 10000000),
-    location: {
-      city: "Unknown",
-      country: "Unknown",
-    },
-  }
+    await history.append(from, {
+      type: "user",
+      content: messageBody || `📎 ${inbound.numMedia} attachment(s)`,
+    })
 
-  return resume
-}
+    // Send n8n's reply back to the candidate
+    const provider = createMessagingProvider()
+    const reply = forward.ok ? parseBotReply(forward.data) : null
+    let delivery = null
 
-function extractEmail(text: string): string | null {
-  const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/
-  const match = text.match(emailRegex)
-  return match ? match[0] : null
-}
+    if (reply?.text) {
+      if (provider instanceof TwimlProvider && inbound.format !== "form") {
+        console.warn("[Webhook] ⚠️ TwiML replies only reach classic webhooks, reply not delivered")
+      } else {
+        delivery = await deliverReply(provider, reply, from, inbound.to)
+      }
 
-function extractFirstName(text: string): string | null {
-  const nameRegex = /(?:my name is|i'm|i am)\s+([A-Za-z]+)/i
-  const match = text.match(nameRegex)
-  return match ? match[1] : null
-}
+      await history.append(from, { type: "system", content: reply.text })
+    } else if (!forward.ok) {
+      const note = forward.retryable ? " (queued for retry)" : " (moved to dead letters)"
+      await history.append(from, { type: "system", content: `API Error: ${forward.error}${note}` })
+    }
 
-function extractLastName(text: string): string | null {
-  const nameRegex = /(?:my name is|i'm|i am)\s+[A-Za-z]+\s+([A-Za-z]+)/i
-  const match = text.match(nameRegex)
-  return match ? match[1] : null
-}
+    // CV attachments are read together with the message text
+    const documents = inbound.media.length > 0 ? await ingestMediaDocuments(inbound) : []
+    const cvText = documents.map((item) => item.text).filter(Boolean).join("\n\n")
 
-function extractSkills(text: string): string | null {
-  const skillKeywords = ["skill", "experience", "proficient", "expert", "knowledge"]
-  for (const keyword of skillKeywords) {
-    if (text.toLowerCase().includes(keyword)) {
-      return text.substring(text.toLowerCase().indexOf(keyword), text.toLowerCase().indexOf(keyword) + 50)
+    const source = documents.find((item) => item.text)?.document
+    if (source) {
+      await history.append(from, {
+        type: "system",
+        content: `CV received: ${source.fileName || source.kind.toUpperCase()}`,
+      })
     }
-  }
-  return null
-}
 
-function extractOccupation(text: string): string | null {
-  const jobRegex = /(?:work as|job as|i'm a|i am a)\s+([A-Za-z\s]+)/i
-  const match = text.match(jobRegex)
-  return match ? match[1].trim() : null
-}
+    let resume: StoredResume | null = null
+    const text = [cvText, messageBody].filter(Boolean).join("\n\n")
+    if (text) {
+      // Each message adds to what the candidate told us before
+      const stored = await history.getResume<StoredResume>(from)
+      const previous = ResumeSchema.safeParse(stored)
+      const merged = mergeResumes(previous.success ? previous.data : null, extractResume(text))
+
+      resume = {
+        ...merged,
+        phoneNumber: merged.phoneNumber ?? from,
+        sourceDocument: source ?? stored?.sourceDocument ?? null,
+      }
+      await history.setResume(from, resume)
+      await history.append(from, {
+        type: "system",
+        content: 'Resume data parsed successfully! Click "Parse Data" to view details.',
+      })
+    }
 
-function extractSalary(text: string): number | null {
-  const salaryRegex = /\$?(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/
-  const match = text.match(salaryRegex)
-  return match ? Number.parseInt(match[1].replace(",", "")) : null
-}
+    const twiml = provider instanceof TwimlProvider && inbound.format === "form" ? provider.toTwiml() : undefined
 
-function extractExperience(text: string): number | null {
-  const expRegex = /(\d+)\s*(?:years?|yrs?)\s*(?:of\s*)?(?:experience|exp)/i
-  const match = text.match(expRegex)
-  return match ? Number.parseInt(match[1]) : null
-}
+    const result = {
+      success: true,
+      messageReceived: messageBody,
+      documents: documents.map((item) => item.document),
+      externalApiResponse: externalApiResponse,
+      reply,
+      delivery,
+      resume: resume,
+      twiml,
+    }
+
+    if (idempotencyKey) {
+      await idempotency.complete(idempotencyKey, 200, result)
+    }
 
-// Export messages for the messages endpoint
-export { messages, parsedResume }
\ No newline at end of file
+    return twiml ? twimlResponse(twiml) : NextResponse.json(result)
+  } catch (error) {
+    console.error("Webhook error:", error)
+    if (idempotencyKey) {
+      await idempotency.release(idempotencyKey).catch(() => {})
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -4,34 +4,55 @@ import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
-import { MessageCircle, Send, Trash2, FileText } from "lucide-react"
+import { MessageCircle, Send, Trash2, FileText, X } from "lucide-react"
+import { BotReplyView } from "@/components/bot-reply"
+import { DeliveryTicks } from "@/components/delivery-ticks"
+import type { BotReply } from "@/lib/bot-reply"
+import { resolveIdentity } from "@/lib/channels"
+import type { DeliveryRecord } from "@/lib/delivery-status"
+import { classifyMessage } from "@/lib/message-classifier"
+import type { Resume } from "@/lib/resume"
 
 interface Message {
   id: string
   type: "user" | "system" | "api" | "typing"
   content: string
+  reply?: BotReply
   timestamp: Date
 }
 
 interface PollResult {
-  status: "waiting" | "processing" | "completed" | "none"
+  status: "waiting" | "processing" | "empty" | "completed" | "none"
   message: string
+  reply?: BotReply
   elapsedSeconds?: number
   completed: boolean
   success?: boolean
 }
 
+// Shown instead of an error when the server asks us to slow down (429)
+function rateLimitNotice(response: Response): string {
+  const seconds = Number(response.headers.get("Retry-After"))
+  const wait = seconds > 0 ? `about ${seconds} second${seconds === 1 ? "" : "s"}` : "a moment"
+  return `⏳ You're sending messages a little too quickly. Please wait ${wait} and try again.`
+}
+
 export default function SurikadoChat() {
   const [messages, setMessages] = useState<Message[]>([])
   const [inputMessage, setInputMessage] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [isParsing, setIsParsing] = useState(false)
   const [showParsedJSON, setShowParsedJSON] = useState(false)
-  const [parsedResume, setParsedResume] = useState<any>(null)
+  const [parsedResume, setParsedResume] = useState<Resume | null>(null)
   const [toPhone, setToPhone] = useState("")
   const [isPolling, setIsPolling] = useState(false)
+  const [deliveries, setDeliveries] = useState<DeliveryRecord[]>([])
+  // The candidate's session token, from the link the bot sent (?session=...).
+  // Delivery status and clearing their data need it.
+  const [sessionToken, setSessionToken] = useState("")
 
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const eventSourceRef = useRef<EventSource | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   
   // Request tracking
@@ -40,12 +61,17 @@ export default function SurikadoChat() {
   const isWaitingForResponseRef = useRef(false)
 
   const POLL_INTERVAL = 3000
+  const DELIVERY_REFRESH_INTERVAL = 10000
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }, [messages])
 
+  useEffect(() => {
+    setSessionToken(new URLSearchParams(window.location.search).get("session") ?? "")
+  }, [])
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -53,56 +79,18 @@ export default function SurikadoChat() {
     }
   }, [])
 
-  // Normalize WhatsApp number
-  const normalizeWhatsApp = (raw: string): string => {
-    if (!raw) return ""
-    let n = String(raw).trim()
-    if (n.toLowerCase().startsWith("whatsapp:")) n = n.slice(9)
-    n = n.replace(/[^+\d]/g, "")
-    if (!n.startsWith("+")) n = `+${n}`
-    return `whatsapp:${n}`
-  }
+  // Keep delivery statuses for the current number fresh
+  useEffect(() => {
+    setDeliveries([])
+    if (!toPhone.trim()) return
 
-  // Enhanced soft skills detection
-  const isSoftSkillsMessage = (message: string): boolean => {
-    const text = message.toLowerCase()
-    
-    // Soft skills QUESTIONS (from bot)
-    const softSkillsQuestions = [
-      "soft skills", "primary skills", "what soft skills",
-      "teamwork", "problem-solving", "communication",
-      "adaptability", "technical leadership", "what are your soft skills",
-      "tell me about your skills", "what skills do you have",
-      "what are your primary skills", "describe your skills"
-    ]
-    
-    // Soft skills RESPONSES (from user) - expanded to include technical skills
-    const softSkillsResponses = [
-      "problem-solving", "adaptability", "technical leadership",
-      "teamwork", "communication", "collaboration", "leadership",
-      "critical thinking", "time management", "creativity",
-      "java", "spring", "framework", "sql", "spring boot", "rest api",
-      "git", "docker", "postgresql", "maven", "oracle", "kubernetes",
-      "java ee", "python", "javascript", "react", "node", "aws",
-      "azure", "cloud", "database", "api", "microservices", "devops",
-      "agile", "scrum", "ci/cd", "testing", "debugging"
-    ]
-    
-    const isQuestion = softSkillsQuestions.some(keyword => text.includes(keyword))
-    const isResponse = softSkillsResponses.some(keyword => text.includes(keyword))
-    
-    console.log("[Detection] Soft skills - Question:", isQuestion, "Response:", isResponse, "Message:", message)
-    
-    // Detect if this looks like a skills list (multiple technical terms)
-    const technicalTerms = text.split(/\s+/).filter(word => 
-      softSkillsResponses.some(skill => word.includes(skill))
-    )
-    const isSkillsList = technicalTerms.length >= 2
-    
-    console.log("[Detection] Technical terms found:", technicalTerms, "Is skills list:", isSkillsList)
-    
-    return isQuestion || isResponse || isSkillsList
-  }
+    refreshDeliveries()
+    const interval = setInterval(refreshDeliveries, DELIVERY_REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [toPhone, sessionToken])
+
+  // Bare numbers are WhatsApp; "telegram:<chatId>" and "web:<sessionId>" pick other channels
+  const normalizeIdentity = (raw: string): string => resolveIdentity(raw)?.identity ?? ""
 
   // Request validation
   const canMakeNewRequest = (): { canMake: boolean; message?: string } => {
@@ -123,12 +111,16 @@ export default function SurikadoChat() {
     return { canMake: true }
   }
 
-  // Stop polling
+  // Stop polling (and close the event stream, if one is open)
   const stopPolling = () => {
     if (pollingIntervalRef.current) {
       clearInterval(pollingIntervalRef.current)
       pollingIntervalRef.current = null
     }
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
     setIsPolling(false)
     setIsLoading(false)
     isWaitingForResponseRef.current = false
@@ -137,6 +129,60 @@ export default function SurikadoChat() {
     console.log("[Polling] Stopped polling")
   }
 
+  // Apply a status update from either the event stream or a poll
+  const handleStatusUpdate = (result: PollResult) => {
+    switch (result.status) {
+      case "waiting":
+      case "processing":
+      case "empty":
+        setMessages((prev) => {
+          const withoutTyping = prev.filter((msg) => msg.type !== "typing")
+          return [
+            ...withoutTyping,
+            {
+              id: `typing-${Date.now()}`,
+              type: "typing",
+              content: result.message || "⚡ Processing your request...",
+              timestamp: new Date(),
+            },
+          ]
+        })
+        break
+
+      case "completed":
+        console.log("[Status] ✅ Completed! Message:", result.message)
+        stopPolling()
+        setMessages((prev) => [
+          ...prev.filter((msg) => msg.type !== "typing"),
+          {
+            id: `${Date.now()}`,
+            type: "api",
+            content: result.message,
+            reply: result.reply,
+            timestamp: new Date(),
+          },
+        ])
+        break
+
+      case "none":
+        console.log("[Status] No active conversation - stopping polling")
+        stopPolling()
+        setMessages((prev) => [
+          ...prev.filter((msg) => msg.type !== "typing"),
+          {
+            id: `${Date.now()}`,
+            type: "system",
+            content: "No active conversation found. Please send a new message.",
+            timestamp: new Date(),
+          },
+        ])
+        break
+
+      default:
+        console.warn("[Status] Unknown status:", result.status)
+    }
+  }
+
   // Polling for response
   const pollForResponse = async () => {
     if (!isWaitingForResponseRef.current) {
@@ -153,7 +199,7 @@ export default function SurikadoChat() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           action: "poll",
-          toPhone: normalizeWhatsApp(toPhone),
+          toPhone: normalizeIdentity(toPhone),
           requestId: currentRequestIdRef.current,
         }),
       })
@@ -170,7 +216,9 @@ export default function SurikadoChat() {
             {
               id: `${Date.now()}`,
               type: "system",
-              content: "Server error. Please try again.",
+              content: response.status === 404
+                ? "This request has expired or is unknown. Please send a new message."
+                : "Server error. Please try again.",
               timestamp: new Date(),
             },
           ])
@@ -181,53 +229,7 @@ export default function SurikadoChat() {
       const result: PollResult = await response.json()
       console.log("[Polling] Result:", result)
 
-      switch (result.status) {
-        case "processing":
-          setMessages((prev) => {
-            const withoutTyping = prev.filter((msg) => msg.type !== "typing")
-            return [
-              ...withoutTyping,
-              {
-                id: `typing-${Date.now()}`,
-                type: "typing",
-                content: result.message || "⚡ Processing your request...",
-                timestamp: new Date(),
-              },
-            ]
-          })
-          break
-
-        case "completed":
-          console.log("[Polling] ✅ Completed! Message:", result.message)
-          stopPolling()
-          setMessages((prev) => [
-            ...prev.filter((msg) => msg.type !== "typing"),
-            {
-              id: `${Date.now()}`,
-              type: "api",
-              content: result.message,
-              timestamp: new Date(),
-            },
-          ])
-          break
-
-        case "none":
-          console.log("[Polling] No active conversation - stopping polling")
-          stopPolling()
-          setMessages((prev) => [
-            ...prev.filter((msg) => msg.type !== "typing"),
-            {
-              id: `${Date.now()}`,
-              type: "system",
-              content: "No active conversation found. Please send a new message.",
-              timestamp: new Date(),
-            },
-          ])
-          break
-
-        default:
-          console.warn("[Polling] Unknown status:", result.status)
-      }
+      handleStatusUpdate(result)
     } catch (error) {
       console.error("[Polling] Exception:", error)
       // Stop polling on network errors
@@ -268,14 +270,90 @@ export default function SurikadoChat() {
       },
     ])
 
-    // Start polling immediately and then set interval
+    // Prefer the server-sent event stream, fall back to polling without it
+    if (typeof EventSource !== "undefined") {
+      startStreaming(requestId)
+    } else {
+      startIntervalPolling()
+    }
+  }
+
+  // Poll immediately and then on an interval
+  const startIntervalPolling = () => {
     pollForResponse()
     pollingIntervalRef.current = setInterval(pollForResponse, POLL_INTERVAL)
   }
 
+  // Subscribe to status events pushed by the server
+  const startStreaming = (requestId: string) => {
+    const params = new URLSearchParams({
+      toPhone: normalizeIdentity(toPhone),
+      requestId,
+    })
+    const eventSource = new EventSource(`/api/send-message?${params}`)
+    eventSourceRef.current = eventSource
+
+    const statuses: PollResult["status"][] = ["waiting", "processing", "empty", "completed", "none"]
+    for (const status of statuses) {
+      eventSource.addEventListener(status, (event) => {
+        const result: PollResult = JSON.parse((event as MessageEvent).data)
+        console.log("[Stream] Event:", result)
+        handleStatusUpdate(result)
+      })
+    }
+
+    // The stream dropped before completing: fall back to polling
+    eventSource.onerror = () => {
+      if (eventSourceRef.current !== eventSource) return
+      console.warn("[Stream] Connection lost, falling back to polling")
+      eventSource.close()
+      eventSourceRef.current = null
+      if (isWaitingForResponseRef.current) {
+        startIntervalPolling()
+      }
+    }
+  }
+
+  // Cancel the in-flight soft skills request on the server
+  const handleCancel = async () => {
+    const requestId = currentRequestIdRef.current
+    if (!requestId) return
+
+    console.log("[Cancel] Cancelling request:", requestId)
+    stopPolling()
+    setMessages((prev) => [
+      ...prev.filter((msg) => msg.type !== "typing"),
+      {
+        id: `${Date.now()}`,
+        type: "system",
+        content: "Request cancelled.",
+        timestamp: new Date(),
+      },
+    ])
+
+    try {
+      const response = await fetch("/api/send-message", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "cancel",
+          toPhone: normalizeIdentity(toPhone),
+          requestId,
+        }),
+      })
+
+      if (!response.ok) {
+        console.error("[Cancel] Server could not cancel:", await response.json())
+      }
+    } catch (error) {
+      console.error("[Cancel] Error:", error)
+    }
+  }
+
   // Send message with immediate processing for soft skills
-  const handleSendMessage = async () => {
-    const messageToSend = inputMessage.trim()
+  // `text` is set when a quick-reply button is tapped instead of typing
+  const handleSendMessage = async (text?: string) => {
+    const messageToSend = (text ?? inputMessage).trim()
     if (!messageToSend) return
     
     if (!toPhone.trim()) {
@@ -318,12 +396,13 @@ export default function SurikadoChat() {
     }
     setMessages((prev) => [...prev, userMessage])
 
-    setInputMessage("")
+    if (text === undefined) setInputMessage("")
     setIsLoading(true)
 
-    // Use enhanced detection for ALL soft skills messages
-    const isSoftSkills = isSoftSkillsMessage(messageToSend)
-    console.log("[Send] Is soft skills message:", isSoftSkills, "Message:", messageToSend)
+    // Same classifier the server uses to pick the routing mode
+    const classification = classifyMessage(messageToSend)
+    const isSoftSkills = classification.isSoftSkills
+    console.log("[Send] Is soft skills message:", isSoftSkills, "Reasons:", classification.reasons)
 
     try {
       const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
@@ -332,16 +411,34 @@ export default function SurikadoChat() {
       
       const response = await fetch("/api/send-message", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": requestId,
+        },
         body: JSON.stringify({
           action: "send",
           message: messageToSend,
-          toPhone: normalizeWhatsApp(toPhone),
+          toPhone: normalizeIdentity(toPhone),
           isSoftSkillsQuestion: isSoftSkills,
           requestId: requestId,
         }),
       })
 
+      if (response.status === 429) {
+        setIsLoading(false)
+        isSendingRef.current = false
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `${Date.now()}`,
+            type: "system",
+            content: rateLimitNotice(response),
+            timestamp: new Date(),
+          },
+        ])
+        return
+      }
+
       // Check if response is ok
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`)
@@ -366,6 +463,7 @@ export default function SurikadoChat() {
                 id: `${Date.now()}`,
                 type: "api",
                 content: result.message,
+                reply: result.reply,
                 timestamp: new Date(),
               },
             ])
@@ -443,11 +541,24 @@ export default function SurikadoChat() {
         body: JSON.stringify({ chatHistory }),
       })
 
+      if (response.status === 429) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `${Date.now()}`,
+            type: "system",
+            content: rateLimitNotice(response),
+            timestamp: new Date(),
+          },
+        ])
+        return
+      }
+
       const result = await response.json()
       console.log("[Parse] Result:", result)
 
       if (response.ok) {
-        setParsedResume(result.parsedResume)
+        setParsedResume(result.resume)
         setShowParsedJSON(true)
         console.log("[Parse] Success")
         
@@ -456,7 +567,9 @@ export default function SurikadoChat() {
           {
             id: `${Date.now()}`,
             type: "system",
-            content: "✅ Resume parsed successfully! Check the JSON output below.",
+            content: result.needsReview?.length
+              ? `✅ Resume parsed. Please double-check: ${result.needsReview.join(", ")}.`
+              : "✅ Resume parsed successfully! Check the JSON output below.",
             timestamp: new Date(),
           },
         ])
@@ -479,47 +592,66 @@ export default function SurikadoChat() {
     }
   }
 
+  const sessionHeaders = (): Record<string, string> => (sessionToken ? { "X-Session-Token": sessionToken } : {})
+
+  // Delivery status of WhatsApp replies sent to this number
+  const refreshDeliveries = async () => {
+    const phone = toPhone.trim() ? normalizeIdentity(toPhone) : ""
+    if (!phone) return
+
+    try {
+      const response = await fetch(`/api/message-status?toPhone=${encodeURIComponent(phone)}`, {
+        headers: sessionHeaders(),
+      })
+      if (response.ok) {
+        const result = await response.json()
+        setDeliveries(result.deliveries)
+      } else if (response.status === 401 || response.status === 503) {
+        setDeliveries([])
+      }
+    } catch (error) {
+      console.error("[Delivery] Failed to load delivery status:", error)
+    }
+  }
+
+  // Follows retries so a resent message shows its latest status
+  const getDelivery = (messageSid?: string): DeliveryRecord | undefined => {
+    let delivery = deliveries.find((item) => item.messageSid === messageSid)
+    while (delivery?.retriedAs) {
+      const next = deliveries.find((item) => item.messageSid === delivery!.retriedAs)
+      if (!next) break
+      delivery = next
+    }
+    return delivery
+  }
+
+  const failedDeliveries = deliveries.filter(
+    (item) => (item.status === "failed" || item.status === "undelivered") && !item.retriedAs
+  )
+
   // Clear cache and reset conversation
   const handleClearCache = async () => {
     try {
-      const sessionId = toPhone.trim() ? normalizeWhatsApp(toPhone) : ""
+      const sessionId = toPhone.trim() ? normalizeIdentity(toPhone) : ""
       
       if (sessionId) {
-        const response = await fetch(
-          "https://surikado.hellodexter.com/webhook/delete-chat-history",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              specversion: "1.0",
-              type: "com.twilio.messaging.inbound-message.received",
-              source: "/some-path",
-              id: `clear-${Date.now()}`,
-              dataschema: "https://events-schemas.twilio.com/Messaging.InboundMessageV1/5",
-              datacontenttype: "application/json",
-              time: new Date().toISOString(),
-              data: {
-                numMedia: 0,
-                timestamp: new Date().toISOString(),
-                recipients: [],
-                accountSid: "ACxxxx",
-                messagingServiceSid: "MGxxxx",
-                to: "whatsapp:+447418633913",
-                numSegments: 1,
-                messageSid: `clear-${Date.now()}`,
-                eventName: "com.twilio.messaging.inbound-message.received",
-                body: "Clear chat history",
-                database: "surikadodb",
-                collection: "n8n_chat_histories",
-                sessionId,
-              },
-            }),
-          }
-        )
+        // The server forwards the delete request to n8n
+        const response = await fetch("/api/delete-chat-history", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ toPhone: sessionId }),
+        })
 
         if (!response.ok) {
           console.error("[Clear] Failed to delete chat history from server")
         }
+
+        // Stored messages and parsed resume for this number
+        await fetch("/api/clear-cache", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...sessionHeaders() },
+          body: JSON.stringify({ phone: sessionId }),
+        })
       }
     } catch (error) {
       console.error("[Clear] Error calling delete API:", error)
@@ -635,12 +767,30 @@ export default function SurikadoChat() {
                             />
                           </div>
                           <span className="text-sm">{message.content}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleCancel}
+                            className="h-6 px-2 text-xs text-gray-500 hover:text-red-600"
+                          >
+                            <X className="w-3 h-3 mr-1" />
+                            Cancel
+                          </Button>
                         </div>
                       ) : (
                         <>
-                          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                          <p className="text-xs opacity-70 mt-1">
+                          {message.type === "api" && message.reply ? (
+                            <BotReplyView
+                              reply={message.reply}
+                              onQuickReply={(value) => handleSendMessage(value)}
+                              quickRepliesDisabled={isLoading || isSendingRef.current || isWaitingForResponseRef.current}
+                            />
+                          ) : (
+                            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                          )}
+                          <p className="text-xs opacity-70 mt-1 flex items-center gap-1">
                             {message.timestamp.toLocaleTimeString()}
+                            <DeliveryTicks delivery={getDelivery(message.reply?.messageSid)} />
                           </p>
                         </>
                       )}
@@ -652,6 +802,23 @@ export default function SurikadoChat() {
             )}
           </div>
 
+          {/* Failed WhatsApp deliveries */}
+          {failedDeliveries.length > 0 && (
+            <div className="mb-2 space-y-1">
+              {failedDeliveries.map((delivery) => (
+                <div
+                  key={delivery.messageSid}
+                  className="flex items-center gap-2 text-xs bg-red-50 text-red-800 border border-red-200 rounded px-2 py-1"
+                >
+                  <DeliveryTicks delivery={delivery} />
+                  <span className="flex-1 truncate">
+                    Not delivered: {delivery.body || delivery.messageSid}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Input Area */}
           <div className="flex gap-2">
             <Input
@@ -663,7 +830,7 @@ export default function SurikadoChat() {
               disabled={isLoading || isSendingRef.current || isWaitingForResponseRef.current}
             />
             <Button 
-              onClick={handleSendMessage} 
+              onClick={() => handleSendMessage()} 
               disabled={isLoading || !inputMessage.trim() || isSendingRef.current || isWaitingForResponseRef.current}
             >
               <Send className="w-4 h-4" />
@@ -0,0 +1,107 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import type { BotReply, ReplyBlock } from "@/lib/bot-reply"
+
+interface BotReplyViewProps {
+  reply: BotReply
+  onQuickReply: (value: string) => void
+  quickRepliesDisabled?: boolean
+}
+
+// Renders a structured bot reply: text, quick-reply buttons, lists, links and media
+export function BotReplyView({ reply, onQuickReply, quickRepliesDisabled }: BotReplyViewProps) {
+  return (
+    <div className="space-y-2">
+      {reply.blocks.map((block, index) => (
+        <ReplyBlockView
+          key={index}
+          block={block}
+          onQuickReply={onQuickReply}
+          quickRepliesDisabled={quickRepliesDisabled}
+        />
+      ))}
+    </div>
+  )
+}
+
+function ReplyBlockView({
+  block,
+  onQuickReply,
+  quickRepliesDisabled,
+}: {
+  block: ReplyBlock
+  onQuickReply: (value: string) => void
+  quickRepliesDisabled?: boolean
+}) {
+  switch (block.type) {
+    case "text":
+      return <p className="text-sm whitespace-pre-wrap">{block.text}</p>
+
+    case "quick-replies":
+      return (
+        <div className="space-y-1">
+          {block.prompt && <p className="text-sm">{block.prompt}</p>}
+          <div className="flex flex-wrap gap-1">
+            {block.options.map((option) => (
+              <Button
+                key={option.value}
+                variant="outline"
+                size="sm"
+                disabled={quickRepliesDisabled}
+                onClick={() => onQuickReply(option.value)}
+                className="h-7 px-2 text-xs bg-white text-green-800 border-green-300 hover:bg-green-50"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )
+
+    case "list": {
+      const items = block.items.map((item, index) => <li key={index}>{item}</li>)
+      return (
+        <div className="text-sm">
+          {block.title && <p className="font-medium">{block.title}</p>}
+          {block.ordered ? (
+            <ol className="list-decimal pl-5 space-y-0.5">{items}</ol>
+          ) : (
+            <ul className="list-disc pl-5 space-y-0.5">{items}</ul>
+          )}
+        </div>
+      )
+    }
+
+    case "link":
+      return (
+        <a
+          href={block.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm underline break-all"
+        >
+          {block.label || block.url}
+        </a>
+      )
+
+    case "media":
+      return (
+        <figure className="space-y-1">
+          {block.mediaType === "image" && (
+            <img src={block.url} alt={block.caption || ""} className="rounded max-w-full" />
+          )}
+          {block.mediaType === "video" && <video src={block.url} controls className="rounded max-w-full" />}
+          {block.mediaType === "audio" && <audio src={block.url} controls className="w-full" />}
+          {block.mediaType === "document" && (
+            <a href={block.url} target="_blank" rel="noopener noreferrer" className="text-sm underline break-all">
+              📄 {block.caption || block.url}
+            </a>
+          )}
+          {block.caption && block.mediaType !== "document" && (
+            <figcaption className="text-xs opacity-80">{block.caption}</figcaption>
+          )}
+        </figure>
+      )
+  }
+}
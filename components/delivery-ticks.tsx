@@ -0,0 +1,33 @@
+"use client"
+
+import { AlertCircle, Check, CheckCheck, Clock } from "lucide-react"
+import type { DeliveryRecord } from "@/lib/delivery-status"
+
+// WhatsApp-style delivery indicator for a bot reply sent over WhatsApp
+export function DeliveryTicks({ delivery }: { delivery?: DeliveryRecord }) {
+  if (!delivery) return null
+
+  switch (delivery.status) {
+    case "accepted":
+    case "queued":
+    case "sending":
+      return <Clock className="w-3 h-3 inline" aria-label="Sending" />
+    case "sent":
+      return <Check className="w-3 h-3 inline" aria-label="Sent" />
+    case "delivered":
+      return <CheckCheck className="w-3 h-3 inline" aria-label="Delivered" />
+    case "read":
+      return <CheckCheck className="w-3 h-3 inline text-blue-500" aria-label="Read" />
+    case "undelivered":
+    case "failed":
+      return (
+        <span
+          className="inline-flex items-center gap-0.5 text-red-600"
+          title={delivery.errorMessage || (delivery.errorCode ? `Error ${delivery.errorCode}` : undefined)}
+        >
+          <AlertCircle className="w-3 h-3" aria-label="Not delivered" />
+          {delivery.errorCode && <span>{delivery.errorCode}</span>}
+        </span>
+      )
+  }
+}
@@ -0,0 +1,12 @@
+// Runs once when the server starts: validate configuration up front so a
+// bad value fails the deploy instead of the first candidate's message.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getConfig } = await import("@/lib/config")
+    getConfig()
+
+    // Resume retrying n8n forwards that were queued before a restart
+    const { getInboundForwardQueue } = await import("@/lib/inbound-forwarder")
+    getInboundForwardQueue()
+  }
+}
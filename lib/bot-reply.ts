@@ -0,0 +1,187 @@
+import { z } from "zod"
+
+// ============================================
+// Reply Model
+// ============================================
+
+// Structured bot replies passed from n8n through /api/send-message to the
+// chat page. Shared by client and server.
+
+const QuickReplyOptionSchema = z.object({
+  label: z.string().min(1),
+  value: z.string().min(1),
+})
+
+const ReplyBlockSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({
+    type: z.literal("quick-replies"),
+    prompt: z.string().optional(),
+    options: z.array(QuickReplyOptionSchema).min(1),
+  }),
+  z.object({
+    type: z.literal("list"),
+    title: z.string().optional(),
+    ordered: z.boolean().optional(),
+    items: z.array(z.string()).min(1),
+  }),
+  z.object({
+    type: z.literal("link"),
+    url: z.string().url(),
+    label: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("media"),
+    url: z.string().url(),
+    mediaType: z.enum(["image", "video", "audio", "document"]),
+    caption: z.string().optional(),
+  }),
+])
+
+export type QuickReplyOption = z.infer<typeof QuickReplyOptionSchema>
+export type ReplyBlock = z.infer<typeof ReplyBlockSchema>
+
+export interface BotReply {
+  // Plain-text rendering, for logs and clients that ignore blocks
+  text: string
+  blocks: ReplyBlock[]
+  // Twilio SID when n8n also sent the reply over WhatsApp; links the
+  // reply to its delivery status
+  messageSid?: string
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+const LIST_ITEM = /^\s*(?:[-*•]|(\d+)[.)])\s+(.*)$/
+
+// Splits plain text into paragraphs and bullet/numbered lists
+export function textToBlocks(text: string): ReplyBlock[] {
+  const blocks: ReplyBlock[] = []
+  let paragraph: string[] = []
+  let list: { ordered: boolean; items: string[] } | null = null
+
+  const flushParagraph = () => {
+    const content = paragraph.join("\n").trim()
+    if (content) blocks.push({ type: "text", text: content })
+    paragraph = []
+  }
+  const flushList = () => {
+    if (list) blocks.push({ type: "list", ordered: list.ordered, items: list.items })
+    list = null
+  }
+
+  for (const line of text.split("\n")) {
+    const item = line.match(LIST_ITEM)
+    if (item) {
+      const ordered = item[1] !== undefined
+      flushParagraph()
+      if (list && list.ordered !== ordered) flushList()
+      if (!list) list = { ordered, items: [] }
+      list.items.push(item[2].trim())
+    } else {
+      flushList()
+      paragraph.push(line)
+    }
+  }
+  flushList()
+  flushParagraph()
+
+  return blocks
+}
+
+function toOptions(raw: unknown): QuickReplyOption[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .map((option) => {
+      if (typeof option === "string") return { label: option, value: option }
+      if (option && typeof option === "object") {
+        const { label, title, text, value, id } = option as Record<string, unknown>
+        const name = label ?? title ?? text ?? value
+        if (typeof name === "string" && name) {
+          return { label: name, value: String(value ?? id ?? name) }
+        }
+      }
+      return null
+    })
+    .filter((option): option is QuickReplyOption => option !== null)
+}
+
+export function blocksToText(blocks: ReplyBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "text":
+          return block.text
+        case "quick-replies":
+          return [block.prompt, ...block.options.map((option) => `• ${option.label}`)].filter(Boolean).join("\n")
+        case "list":
+          return [
+            block.title,
+            ...block.items.map((item, index) => (block.ordered ? `${index + 1}. ${item}` : `• ${item}`)),
+          ].filter(Boolean).join("\n")
+        case "link":
+          return block.label ? `${block.label}: ${block.url}` : block.url
+        case "media":
+          return block.caption ? `${block.caption}: ${block.url}` : block.url
+      }
+    })
+    .join("\n\n")
+}
+
+// Turns whatever n8n returned (JSON or plain text) into a BotReply.
+// Recognised JSON shapes, in order:
+//   { blocks: ReplyBlock[] }
+//   { output | message | response | body: string, quickReplies | buttons | options?: [...],
+//     links?: [...], media?: [...] }
+// Either object shape may carry messageSid | sid. Anything else is treated as plain text.
+export function parseBotReply(raw: unknown): BotReply {
+  if (typeof raw === "string") {
+    try {
+      return parseBotReply(JSON.parse(raw))
+    } catch {
+      return { text: raw, blocks: textToBlocks(raw) }
+    }
+  }
+
+  // n8n often wraps its output in a single-item array
+  if (Array.isArray(raw) && raw.length === 1) return parseBotReply(raw[0])
+
+  if (!raw || typeof raw !== "object") {
+    const text = raw === undefined || raw === null ? "" : String(raw)
+    return { text, blocks: textToBlocks(text) }
+  }
+
+  const data = raw as Record<string, unknown>
+  const sid = data.messageSid ?? data.sid
+  const messageSid = typeof sid === "string" && sid ? sid : undefined
+
+  if (Array.isArray(data.blocks)) {
+    const blocks = data.blocks
+      .map((block) => ReplyBlockSchema.safeParse(block))
+      .filter((result) => result.success)
+      .map((result) => result.data as ReplyBlock)
+    return { text: blocksToText(blocks), blocks, messageSid }
+  }
+
+  const text = [data.output, data.message, data.response, data.body].find(
+    (value): value is string => typeof value === "string"
+  ) ?? ""
+  const blocks = textToBlocks(text)
+
+  const options = toOptions(data.quickReplies ?? data.buttons ?? data.options)
+  if (options.length > 0) blocks.push({ type: "quick-replies", options })
+
+  for (const link of Array.isArray(data.links) ? data.links : []) {
+    const parsed = ReplyBlockSchema.safeParse({ type: "link", ...(typeof link === "string" ? { url: link } : link) })
+    if (parsed.success) blocks.push(parsed.data)
+  }
+
+  for (const media of Array.isArray(data.media) ? data.media : []) {
+    const parsed = ReplyBlockSchema.safeParse({ type: "media", ...media })
+    if (parsed.success) blocks.push(parsed.data)
+  }
+
+  return { text: text || blocksToText(blocks), blocks, messageSid }
+}
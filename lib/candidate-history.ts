@@ -0,0 +1,99 @@
+import crypto from "crypto"
+import { getStorage, type StorageBackend } from "@/lib/storage"
+
+// ============================================
+// Types
+// ============================================
+
+export interface HistoryMessage {
+  // Sortable: zero-padded timestamp and sequence, then a random suffix
+  id: string
+  phone: string
+  type: "user" | "system"
+  content: string
+  timestamp: string
+}
+
+export interface HistoryPage {
+  // Oldest first within the page
+  messages: HistoryMessage[]
+  // Pass as `before` to get the next older page; null on the last page
+  nextCursor: string | null
+}
+
+// ============================================
+// Candidate History Store
+// ============================================
+
+// Messages and the latest parsed resume, kept per candidate phone so that
+// candidates never see each other's data. Each message is its own key, so
+// concurrent appends from different requests never overwrite each other.
+const MESSAGES = "history"
+const RESUMES = "resumes"
+
+export class CandidateHistoryStore {
+  // Keeps ids ordered when several messages land in the same millisecond
+  private lastTime = 0
+  private sequence = 0
+
+  constructor(private readonly storage: StorageBackend) {}
+
+  private nextId(now: number): string {
+    this.sequence = now === this.lastTime ? this.sequence + 1 : 0
+    this.lastTime = now
+    return `${String(now).padStart(15, "0")}-${String(this.sequence).padStart(4, "0")}-${crypto.randomBytes(3).toString("hex")}`
+  }
+
+  async append(phone: string, message: Pick<HistoryMessage, "type" | "content">): Promise<HistoryMessage> {
+    const now = Date.now()
+    const record: HistoryMessage = {
+      id: this.nextId(now),
+      phone,
+      type: message.type,
+      content: message.content,
+      timestamp: new Date(now).toISOString(),
+    }
+    await this.storage.set(MESSAGES, `${phone}|${record.id}`, record)
+    return record
+  }
+
+  // The `limit` newest messages older than the `before` cursor
+  async list(phone: string, options: { before?: string; limit: number }): Promise<HistoryPage> {
+    const older = (await this.messagesFor(phone)).filter((message) => !options.before || message.id < options.before)
+    const page = older.slice(Math.max(0, older.length - options.limit))
+
+    return {
+      messages: page,
+      nextCursor: older.length > page.length ? page[0].id : null,
+    }
+  }
+
+  async setResume<T>(phone: string, resume: T): Promise<void> {
+    await this.storage.set(RESUMES, phone, resume)
+  }
+
+  async getResume<T>(phone: string): Promise<T | null> {
+    return (await this.storage.get<T>(RESUMES, phone)) ?? null
+  }
+
+  async clear(phone: string): Promise<void> {
+    for (const message of await this.messagesFor(phone)) {
+      await this.storage.delete(MESSAGES, `${phone}|${message.id}`)
+    }
+    await this.storage.delete(RESUMES, phone)
+  }
+
+  // Oldest first
+  private async messagesFor(phone: string): Promise<HistoryMessage[]> {
+    const prefix = `${phone}|`
+    const entries = await this.storage.entries<HistoryMessage>(MESSAGES)
+    return entries
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, message]) => message)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+  }
+}
+
+export function createCandidateHistoryStore(): CandidateHistoryStore {
+  return new CandidateHistoryStore(getStorage())
+}
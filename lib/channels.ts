@@ -0,0 +1,161 @@
+// ============================================
+// Types
+// ============================================
+
+// Pure functions only: shared by the chat page and the server routes
+
+export type ChannelId = "whatsapp" | "sms" | "telegram" | "web"
+
+// Twilio identities used to fill in the envelope for Twilio-carried channels
+export interface TwilioIdentity {
+  accountSid: string
+  messagingServiceSid: string
+  botNumber: string
+}
+
+export interface EnvelopeInput {
+  id: string
+  // Normalized sender identity
+  from: string
+  body: string
+  to?: string
+  messageSid?: string
+  numSegments?: number
+  numMedia?: number
+  media?: Array<{ url: string; contentType?: string }>
+  recipients?: unknown[]
+  accountSid?: string
+  messagingServiceSid?: string
+}
+
+export interface ChannelAdapter {
+  readonly id: ChannelId
+  // True when messages travel through Twilio (delivery callbacks, TwiML, ...)
+  readonly viaTwilio: boolean
+  // Canonical identity for a raw address, or null if it isn't valid here
+  normalizeIdentity(raw: string): string | null
+  // The bot's own address on this channel
+  botAddress(twilio: TwilioIdentity): string
+}
+
+// ============================================
+// Envelope
+// ============================================
+
+// n8n's intake workflow is triggered by this event type, whatever the
+// channel; `data.channel` and `source` tell channels apart.
+export const INBOUND_EVENT_TYPE = "com.twilio.messaging.inbound-message.received"
+
+export function buildEnvelope(adapter: ChannelAdapter, message: EnvelopeInput, twilio: TwilioIdentity) {
+  const timestamp = new Date().toISOString()
+
+  return {
+    specversion: "1.0",
+    type: INBOUND_EVENT_TYPE,
+    source: `/channels/${adapter.id}`,
+    id: message.id,
+    dataschema: "https://events-schemas.twilio.com/Messaging.InboundMessageV1/5",
+    datacontenttype: "application/json",
+    time: timestamp,
+    data: {
+      channel: adapter.id,
+      numMedia: message.numMedia ?? 0,
+      media: message.media ?? [],
+      timestamp,
+      recipients: message.recipients ?? [],
+      accountSid: message.accountSid || (adapter.viaTwilio ? twilio.accountSid : undefined),
+      messagingServiceSid: message.messagingServiceSid || (adapter.viaTwilio ? twilio.messagingServiceSid : undefined),
+      to: message.to || adapter.botAddress(twilio),
+      numSegments: message.numSegments ?? 1,
+      messageSid: message.messageSid || message.id,
+      eventName: INBOUND_EVENT_TYPE,
+      body: message.body, // User's message goes here
+      from: message.from,
+    },
+  }
+}
+
+export type InboundEnvelope = ReturnType<typeof buildEnvelope>
+
+// ============================================
+// Adapters
+// ============================================
+
+// "+1 (609) 803-4599", "whatsapp:16098034599" -> "+16098034599"
+function toE164(raw: string): string | null {
+  const digits = raw.replace(/^(?:whatsapp|sms|tel):/i, "").replace(/[^\d]/g, "")
+  return digits.length >= 6 && digits.length <= 15 ? `+${digits}` : null
+}
+
+const whatsapp: ChannelAdapter = {
+  id: "whatsapp",
+  viaTwilio: true,
+  normalizeIdentity: (raw) => {
+    const number = toE164(raw)
+    return number && `whatsapp:${number}`
+  },
+  botAddress: (twilio) => twilio.botNumber,
+}
+
+const sms: ChannelAdapter = {
+  id: "sms",
+  viaTwilio: true,
+  normalizeIdentity: toE164,
+  // Same Twilio number, without the WhatsApp prefix
+  botAddress: (twilio) => twilio.botNumber.replace(/^whatsapp:/, ""),
+}
+
+// Telegram chat ids are integers (negative for groups)
+const telegram: ChannelAdapter = {
+  id: "telegram",
+  viaTwilio: false,
+  normalizeIdentity: (raw) => {
+    const id = raw.trim().replace(/^telegram:/i, "")
+    return /^-?\d{1,20}$/.test(id) ? `telegram:${id}` : null
+  },
+  botAddress: () => "telegram:bot",
+}
+
+// Browser chat widget: an opaque session id generated by the page
+const web: ChannelAdapter = {
+  id: "web",
+  viaTwilio: false,
+  normalizeIdentity: (raw) => {
+    const id = raw.trim().replace(/^web:/i, "")
+    return /^[A-Za-z0-9_-]{8,64}$/.test(id) ? `web:${id}` : null
+  },
+  botAddress: () => "web:surikado",
+}
+
+const ADAPTERS: Record<ChannelId, ChannelAdapter> = { whatsapp, sms, telegram, web }
+
+export function isChannelId(value: unknown): value is ChannelId {
+  return typeof value === "string" && value in ADAPTERS
+}
+
+export function getChannelAdapter(channel: ChannelId): ChannelAdapter {
+  return ADAPTERS[channel]
+}
+
+// Which channel a normalized identity belongs to. Bare numbers are SMS.
+export function channelOfIdentity(identity: string): ChannelId {
+  const prefix = identity.match(/^(whatsapp|telegram|web):/i)?.[1].toLowerCase()
+  return isChannelId(prefix) ? prefix : "sms"
+}
+
+// Normalizes a raw address. A channel prefix in the address wins over the
+// hint; without either, numbers are treated as WhatsApp, as the chat page
+// always has.
+export function resolveIdentity(
+  raw: unknown,
+  channelHint?: ChannelId
+): { channel: ChannelId; identity: string } | null {
+  if (raw === undefined || raw === null) return null
+  const value = String(raw).trim()
+  if (!value) return null
+
+  const prefix = value.match(/^(whatsapp|telegram|web|sms):/i)?.[1].toLowerCase()
+  const channel = isChannelId(prefix) ? prefix : channelHint ?? "whatsapp"
+  const identity = ADAPTERS[channel].normalizeIdentity(value)
+  return identity ? { channel, identity } : null
+}
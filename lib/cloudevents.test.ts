@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { CloudEventError, parseCloudEvents } from "@/lib/cloudevents"
+
+const event = { specversion: "1.0", id: "EV1", source: "/twilio", type: "com.twilio.messaging.inbound-message.received" }
+
+const json = (contentType: string) => new Headers({ "content-type": contentType })
+
+describe("parseCloudEvents", () => {
+  it("reads a structured event", () => {
+    const body = JSON.stringify({ ...event, data: { body: "Hi" } })
+    expect(parseCloudEvents(body, json("application/cloudevents+json"))).toEqual({
+      mode: "structured",
+      events: [{ ...event, data: { body: "Hi" } }],
+    })
+  })
+
+  it("reads a binary event from ce-* headers, percent-decoded", () => {
+    const headers = new Headers({
+      "content-type": "application/json",
+      "ce-specversion": "1.0",
+      "ce-id": "EV2",
+      "ce-source": "/twilio",
+      "ce-type": "com.twilio.test",
+      "ce-subject": "caf%C3%A9",
+    })
+    const { mode, events } = parseCloudEvents('{"body":"Hi"}', headers)
+    expect(mode).toBe("binary")
+    expect(events[0]).toMatchObject({ id: "EV2", subject: "café", datacontenttype: "application/json", data: { body: "Hi" } })
+  })
+
+  it("reads a batch, declared or as a plain JSON array", () => {
+    const body = JSON.stringify([event, { ...event, id: "EV3" }])
+    expect(parseCloudEvents(body, json("application/cloudevents-batch+json")).events.map((item) => item.id)).toEqual([
+      "EV1",
+      "EV3",
+    ])
+    expect(parseCloudEvents(body, json("application/json")).mode).toBe("batch")
+  })
+
+  it("decodes data_base64", () => {
+    const body = JSON.stringify({
+      ...event,
+      datacontenttype: "application/json",
+      data_base64: Buffer.from('{"body":"Hi"}').toString("base64"),
+    })
+    const [decoded] = parseCloudEvents(body, json("application/cloudevents+json")).events
+    expect(decoded.data).toEqual({ body: "Hi" })
+    expect(decoded).not.toHaveProperty("data_base64")
+  })
+
+  it.each([
+    ["invalid JSON", "{", /body is not valid JSON/],
+    ["a wrong specversion", JSON.stringify({ ...event, specversion: "0.3" }), /unsupported specversion/],
+    ["a missing id", JSON.stringify({ ...event, id: "" }), /"id" is required/],
+    ["a non-string subject", JSON.stringify({ ...event, subject: 1 }), /"subject" must be a string/],
+    ["a malformed time", JSON.stringify({ ...event, time: "yesterday" }), /RFC 3339/],
+  ])("rejects %s", (_case, body, message) => {
+    expect(() => parseCloudEvents(body, json("application/cloudevents+json"))).toThrow(message)
+  })
+
+  it("points at the broken event in a batch", () => {
+    const body = JSON.stringify([event, { ...event, source: undefined }])
+    try {
+      parseCloudEvents(body, json("application/cloudevents-batch+json"))
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(CloudEventError)
+      expect((error as CloudEventError).index).toBe(1)
+      expect((error as Error).message).toMatch(/^Event 1: "source" is required/)
+    }
+  })
+
+  it("rejects a declared batch that isn't an array", () => {
+    expect(() => parseCloudEvents(JSON.stringify(event), json("application/cloudevents-batch+json"))).toThrow(
+      /a batch must be a JSON array/
+    )
+  })
+})
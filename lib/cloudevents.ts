@@ -0,0 +1,139 @@
+// ============================================
+// Types
+// ============================================
+
+// CloudEvents 1.0 (https://github.com/cloudevents/spec/blob/v1.0.2/cloudevents/spec.md)
+export interface CloudEvent {
+  specversion: "1.0"
+  id: string
+  source: string
+  type: string
+  datacontenttype?: string
+  dataschema?: string
+  subject?: string
+  time?: string
+  data?: unknown
+  // Extension attributes
+  [attribute: string]: unknown
+}
+
+export type CloudEventMode = "structured" | "binary" | "batch"
+
+// The request isn't a valid CloudEvent (or batch); `index` points into a batch
+export class CloudEventError extends Error {
+  constructor(
+    message: string,
+    public readonly index?: number
+  ) {
+    super(index === undefined ? message : `Event ${index}: ${message}`)
+    this.name = "CloudEventError"
+  }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+const REQUIRED = ["id", "source", "type"] as const
+const OPTIONAL_STRINGS = ["datacontenttype", "dataschema", "subject", "time"] as const
+
+// RFC 3339, which is what the spec requires for `time`
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i
+
+function toCloudEvent(value: unknown, index?: number): CloudEvent {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new CloudEventError("must be a JSON object", index)
+  }
+  const event = value as Record<string, unknown>
+
+  if (event.specversion !== "1.0") {
+    throw new CloudEventError(`unsupported specversion ${JSON.stringify(event.specversion)}, expected "1.0"`, index)
+  }
+  for (const attribute of REQUIRED) {
+    if (typeof event[attribute] !== "string" || event[attribute] === "") {
+      throw new CloudEventError(`"${attribute}" is required and must be a non-empty string`, index)
+    }
+  }
+  for (const attribute of OPTIONAL_STRINGS) {
+    if (event[attribute] !== undefined && typeof event[attribute] !== "string") {
+      throw new CloudEventError(`"${attribute}" must be a string`, index)
+    }
+  }
+  if (typeof event.time === "string" && !TIMESTAMP.test(event.time)) {
+    throw new CloudEventError(`"time" must be an RFC 3339 timestamp`, index)
+  }
+
+  // JSON format carries non-JSON payloads base64-encoded
+  if (typeof event.data_base64 === "string") {
+    const { data_base64: encoded, ...rest } = event
+    const text = Buffer.from(encoded as string, "base64").toString("utf8")
+    try {
+      return { ...rest, data: decodeData(text, rest.datacontenttype) } as CloudEvent
+    } catch (error) {
+      throw new CloudEventError(error instanceof Error ? error.message : String(error), index)
+    }
+  }
+  return event as CloudEvent
+}
+
+function isJsonContentType(contentType?: unknown): boolean {
+  return typeof contentType !== "string" || /[/+]json\b/i.test(contentType)
+}
+
+function decodeData(text: string, contentType?: unknown): unknown {
+  if (!text || !isJsonContentType(contentType)) return text
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new CloudEventError("data is not valid JSON")
+  }
+}
+
+// ============================================
+// HTTP Binding
+// ============================================
+
+// Binary mode: attributes in ce-* headers (percent-encoded), data in the body
+function fromBinary(rawBody: string, headers: Headers): CloudEvent {
+  const event: Record<string, unknown> = {}
+  headers.forEach((value, name) => {
+    const lower = name.toLowerCase()
+    if (!lower.startsWith("ce-")) return
+    try {
+      event[lower.slice(3)] = decodeURIComponent(value)
+    } catch {
+      event[lower.slice(3)] = value
+    }
+  })
+
+  const contentType = headers.get("content-type") || undefined
+  if (contentType) event.datacontenttype = contentType
+  if (rawBody) event.data = decodeData(rawBody, contentType)
+  return toCloudEvent(event)
+}
+
+// Parses any of the three HTTP content modes and validates every event.
+// A plain JSON array is accepted as a batch, as Twilio Event Streams sends.
+// Throws CloudEventError on anything malformed.
+export function parseCloudEvents(rawBody: string, headers: Headers): { mode: CloudEventMode; events: CloudEvent[] } {
+  if (headers.has("ce-specversion")) {
+    return { mode: "binary", events: [fromBinary(rawBody, headers)] }
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    throw new CloudEventError("body is not valid JSON")
+  }
+
+  const contentType = headers.get("content-type") || ""
+  if (/application\/cloudevents-batch\+json/i.test(contentType) || Array.isArray(body)) {
+    if (!Array.isArray(body)) {
+      throw new CloudEventError("a batch must be a JSON array")
+    }
+    return { mode: "batch", events: body.map((item, index) => toCloudEvent(item, index)) }
+  }
+
+  return { mode: "structured", events: [toCloudEvent(body)] }
+}
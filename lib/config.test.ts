@@ -0,0 +1,47 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, describe, expect, it } from "vitest"
+import { loadConfig } from "@/lib/config"
+
+const tempFiles: string[] = []
+
+function configFile(contents: unknown): string {
+  const file = path.join(os.tmpdir(), `surikado-config-${process.pid}-${tempFiles.length}.json`)
+  fs.writeFileSync(file, JSON.stringify(contents))
+  tempFiles.push(file)
+  return file
+}
+
+afterEach(() => {
+  for (const file of tempFiles.splice(0)) fs.rmSync(file, { force: true })
+})
+
+describe("loadConfig", () => {
+  it("forwards inbound messages to the same n8n webhook as before by default", () => {
+    expect(loadConfig({}).n8n.inboundWebhookUrl).toBe(
+      "http://surikado.hellodexter.com:5678/webhook-test/130bb4fe-11e5-4442-9a63-a68de302e144"
+    )
+  })
+
+  it("lets the config file and then the environment override the inbound webhook", () => {
+    const SURIKADO_CONFIG_FILE = configFile({ n8n: { inboundWebhookUrl: "https://file.example.com/hook" } })
+    expect(loadConfig({ SURIKADO_CONFIG_FILE }).n8n.inboundWebhookUrl).toBe("https://file.example.com/hook")
+    expect(
+      loadConfig({ SURIKADO_CONFIG_FILE, N8N_INBOUND_WEBHOOK_URL: "https://env.example.com/hook" }).n8n.inboundWebhookUrl
+    ).toBe("https://env.example.com/hook")
+  })
+
+  it("merges nested sections with the defaults", () => {
+    const SURIKADO_CONFIG_FILE = configFile({ n8n: { inboundWebhookUrl: "https://file.example.com/hook" } })
+    expect(loadConfig({ SURIKADO_CONFIG_FILE }).n8n.webhookUrls).toEqual(loadConfig({}).n8n.webhookUrls)
+  })
+
+  it("replaces the default EUR rates instead of merging into them", () => {
+    expect(loadConfig({}).salary.eurRates.USD).toBeDefined()
+    expect(loadConfig({ SALARY_EUR_RATES: "EUR=1,GBP=1.2" }).salary.eurRates).toEqual({ EUR: 1, GBP: 1.2 })
+
+    const SURIKADO_CONFIG_FILE = configFile({ salary: { eurRates: { EUR: 1, CHF: 1.1 } } })
+    expect(loadConfig({ SURIKADO_CONFIG_FILE }).salary.eurRates).toEqual({ EUR: 1, CHF: 1.1 })
+  })
+})
@@ -0,0 +1,331 @@
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+
+// ============================================
+// Schema
+// ============================================
+
+const url = z.string().url()
+const whatsappNumber = z.string().regex(/^whatsapp:\+\d{6,15}$/, "must look like whatsapp:+<digits>")
+const durationMs = z.coerce.number().int().positive()
+const bucket = z.object({
+  burst: z.coerce.number().int().positive(),
+  perMinute: z.coerce.number().positive(),
+})
+const currencyCode = z.string().regex(/^[A-Z]{3}$/, "must be an ISO 4217 code like EUR")
+const flag = z.union([z.boolean(), z.enum(["true", "false", "1", "0"])]).transform((value) => value === true || value === "true" || value === "1")
+
+const ConfigSchema = z.object({
+  n8n: z.object({
+    // Tried in order of health by WebhookClient
+    webhookUrls: z.array(url).min(1),
+    // Target for messages arriving on /api/webhook
+    inboundWebhookUrl: url,
+    deleteChatHistoryUrl: url,
+  }),
+  twilio: z.object({
+    accountSid: z.string().min(1),
+    messagingServiceSid: z.string().min(1),
+    // The bot's number that web chat messages are addressed to
+    botNumber: whatsappNumber,
+    // The number n8n keys chat history under when clearing it
+    chatHistoryNumber: whatsappNumber,
+    // Used to verify X-Twilio-Signature on /api/webhook
+    authToken: z.string().min(1).optional(),
+    // Public URL Twilio calls, when the app sits behind a proxy that rewrites it
+    webhookUrl: url.optional(),
+    // Local development only; refused when NODE_ENV=production
+    skipSignatureValidation: flag,
+  }),
+  timing: z.object({
+    EMPTY_MESSAGE_INTERVAL: durationMs,
+    MAX_TOTAL_TIME: durationMs,
+    WEBHOOK_TIMEOUT: durationMs,
+    NORMAL_MESSAGE_TIMEOUT: durationMs,
+    CLEANUP_INTERVAL: durationMs,
+    MAX_CONVERSATION_AGE: durationMs,
+    POLLING_WAIT_TIME: durationMs,
+    STREAM_TICK_INTERVAL: durationMs,
+    STREAM_HEARTBEAT_INTERVAL: durationMs,
+    IDEMPOTENCY_WINDOW: durationMs,
+    INBOUND_FORWARD_TIMEOUT: durationMs,
+    FORWARD_RETRY_INTERVAL: durationMs,
+  }),
+  storage: z.object({
+    backend: z.enum(["memory", "file"]),
+    dir: z.string().min(1),
+  }),
+  messaging: z.object({
+    // How replies to inbound WhatsApp messages reach the candidate
+    provider: z.enum(["twiml", "twilio", "mock"]),
+    twilioApiBaseUrl: url,
+    // Public URL of /api/message-status, passed to Twilio for delivery updates
+    statusCallbackUrl: url.optional(),
+  }),
+  operator: z.object({
+    // Bearer token for operator endpoints; without it they only work outside production
+    token: z.string().min(16).optional(),
+  }),
+  session: z.object({
+    // Signs the per-candidate tokens for /api/messages and /api/clear-cache
+    secret: z.string().min(16).optional(),
+  }),
+  media: z.object({
+    // "stub" reads attachments from stubDir instead of downloading them
+    fetcher: z.enum(["twilio", "stub"]),
+    stubDir: z.string().min(1),
+    // Larger attachments are skipped rather than downloaded
+    maxBytes: z.coerce.number().int().positive(),
+  }),
+  resume: z.object({
+    // Extracted fields less certain than this are flagged for recruiter review
+    reviewThreshold: z.coerce.number().min(0).max(1),
+  }),
+  salary: z.object({
+    // Assumed when the candidate names no currency
+    defaultCurrency: currencyCode,
+    // EUR for one unit of each currency. Salaries in other currencies keep
+    // their stated amount but get no monthly EUR figure.
+    eurRates: z.record(currencyCode, z.coerce.number().positive()),
+    // Converts hourly rates to monthly ones
+    hoursPerMonth: z.coerce.number().positive(),
+  }),
+  rateLimit: z.object({
+    enabled: flag,
+    // Token bucket per sender (phone, chat id, ...) on each messaging route
+    phone: bucket,
+    // Token bucket per client IP on routes called from browsers and scripts
+    ip: bucket,
+    // Proxies in front of the app that append to X-Forwarded-For
+    trustedProxies: z.coerce.number().int().min(1),
+  }),
+})
+
+export type AppConfig = z.infer<typeof ConfigSchema>
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`)
+    this.name = "ConfigError"
+  }
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+const DEFAULTS: AppConfig = {
+  n8n: {
+    webhookUrls: [
+      "https://surikado.hellodexter.com:5678/webhook/130bb4fe-11e5-4442-9a63-a68de302e144",
+      "https://surikado.hellodexter.com/webhook/130bb4fe-11e5-4442-9a63-a68de302e144",
+    ],
+    inboundWebhookUrl: "http://surikado.hellodexter.com:5678/webhook-test/130bb4fe-11e5-4442-9a63-a68de302e144",
+    deleteChatHistoryUrl: "https://surikado.hellodexter.com/webhook/delete-chat-history",
+  },
+  twilio: {
+    accountSid: "ACxxxx",
+    messagingServiceSid: "MGxxxx",
+    botNumber: "whatsapp:+16098034599",
+    chatHistoryNumber: "whatsapp:+447418633913",
+    skipSignatureValidation: false,
+  },
+  timing: {
+    EMPTY_MESSAGE_INTERVAL: 8000, // 8 seconds between empty messages
+    MAX_TOTAL_TIME: 300000, // 5 minutes absolute maximum (300 seconds)
+    WEBHOOK_TIMEOUT: 90000, // 90 seconds for webhook call (1.5 minutes)
+    NORMAL_MESSAGE_TIMEOUT: 25000, // 25 seconds for normal messages
+    CLEANUP_INTERVAL: 60000, // Clean up every minute
+    MAX_CONVERSATION_AGE: 900000, // 15 minutes
+    POLLING_WAIT_TIME: 10000, // Wait 10 seconds before first webhook call
+    STREAM_TICK_INTERVAL: 1000, // Re-check conversation state every second while streaming
+    STREAM_HEARTBEAT_INTERVAL: 15000, // Keep-alive comment so proxies don't close idle streams
+    IDEMPOTENCY_WINDOW: 600000, // Replays within 10 minutes return the original result
+    INBOUND_FORWARD_TIMEOUT: 10000, // Twilio gives up on a webhook after 15 seconds
+    FORWARD_RETRY_INTERVAL: 5000, // How often the n8n forward queue looks for due retries
+  },
+  storage: {
+    backend: "memory",
+    dir: path.join(process.cwd(), ".data"),
+  },
+  messaging: {
+    provider: "mock",
+    twilioApiBaseUrl: "https://api.twilio.com",
+  },
+  operator: {},
+  session: {},
+  media: {
+    fetcher: "twilio",
+    stubDir: path.join(process.cwd(), ".data", "media"),
+    maxBytes: 10 * 1024 * 1024, // 10 MB, well above a typical CV
+  },
+  resume: {
+    reviewThreshold: 0.6,
+  },
+  salary: {
+    defaultCurrency: "EUR",
+    // Approximate; set current rates in the config file or SALARY_EUR_RATES
+    eurRates: {
+      EUR: 1,
+      USD: 0.92,
+      GBP: 1.17,
+      CHF: 1.05,
+      CZK: 0.04,
+      PLN: 0.23,
+      HUF: 0.0025,
+      RON: 0.2,
+      SEK: 0.088,
+      NOK: 0.086,
+      DKK: 0.134,
+      CAD: 0.68,
+      AUD: 0.61,
+      INR: 0.011,
+      PKR: 0.0033,
+    },
+    hoursPerMonth: 173, // 40 hours a week
+  },
+  rateLimit: {
+    enabled: true,
+    phone: { burst: 10, perMinute: 6 }, // A candidate typing fast, not a script
+    ip: { burst: 30, perMinute: 30 }, // Several candidates behind one office NAT
+    trustedProxies: 1, // The hosting platform's edge
+  },
+}
+
+// ============================================
+// Loading
+// ============================================
+
+type Env = Record<string, string | undefined>
+
+// Only the variables that are actually set override file and defaults
+function fromEnv(env: Env) {
+  const list = (value?: string) =>
+    value === undefined ? undefined : value.split(",").map((item) => item.trim()).filter(Boolean)
+  // "USD=0.92,GBP=1.17"
+  const pairs = (value?: string) =>
+    value === undefined
+      ? undefined
+      : Object.fromEntries(list(value)!.map((item) => item.split("=").map((part) => part.trim())))
+
+  const timing: Record<string, string> = {}
+  for (const key of Object.keys(DEFAULTS.timing)) {
+    const value = env[`TIMING_${key}`]
+    if (value !== undefined) timing[key] = value
+  }
+
+  return {
+    n8n: {
+      webhookUrls: list(env.N8N_WEBHOOK_URLS),
+      inboundWebhookUrl: env.N8N_INBOUND_WEBHOOK_URL,
+      deleteChatHistoryUrl: env.N8N_DELETE_CHAT_HISTORY_URL,
+    },
+    twilio: {
+      accountSid: env.TWILIO_ACCOUNT_SID,
+      messagingServiceSid: env.TWILIO_MESSAGING_SERVICE_SID,
+      botNumber: env.TWILIO_BOT_NUMBER,
+      chatHistoryNumber: env.TWILIO_CHAT_HISTORY_NUMBER,
+      authToken: env.TWILIO_AUTH_TOKEN,
+      webhookUrl: env.TWILIO_WEBHOOK_URL,
+      skipSignatureValidation: env.TWILIO_SKIP_SIGNATURE_VALIDATION,
+    },
+    timing,
+    storage: {
+      backend: env.STORAGE_BACKEND,
+      dir: env.STORAGE_DIR,
+    },
+    messaging: {
+      provider: env.MESSAGING_PROVIDER,
+      twilioApiBaseUrl: env.TWILIO_API_BASE_URL,
+      statusCallbackUrl: env.MESSAGING_STATUS_CALLBACK_URL,
+    },
+    operator: {
+      token: env.OPERATOR_TOKEN,
+    },
+    session: {
+      secret: env.SESSION_SECRET,
+    },
+    media: {
+      fetcher: env.MEDIA_FETCHER,
+      stubDir: env.MEDIA_STUB_DIR,
+      maxBytes: env.MEDIA_MAX_BYTES,
+    },
+    resume: {
+      reviewThreshold: env.RESUME_REVIEW_THRESHOLD,
+    },
+    salary: {
+      defaultCurrency: env.SALARY_DEFAULT_CURRENCY,
+      eurRates: pairs(env.SALARY_EUR_RATES),
+      hoursPerMonth: env.SALARY_HOURS_PER_MONTH,
+    },
+    rateLimit: {
+      enabled: env.RATE_LIMIT_ENABLED,
+      phone: {
+        burst: env.RATE_LIMIT_PHONE_BURST,
+        perMinute: env.RATE_LIMIT_PHONE_PER_MINUTE,
+      },
+      ip: {
+        burst: env.RATE_LIMIT_IP_BURST,
+        perMinute: env.RATE_LIMIT_IP_PER_MINUTE,
+      },
+      trustedProxies: env.RATE_LIMIT_TRUSTED_PROXIES,
+    },
+  }
+}
+
+function fromFile(env: Env): Record<string, any> {
+  const file = env.SURIKADO_CONFIG_FILE
+  if (!file) return {}
+
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(file), "utf8"))
+  } catch (error) {
+    throw new ConfigError([
+      `SURIKADO_CONFIG_FILE (${file}): ${error instanceof Error ? error.message : String(error)}`,
+    ])
+  }
+}
+
+// Tables that an override replaces as a whole instead of merging into, so a
+// rate left out of SALARY_EUR_RATES isn't silently kept from the defaults
+const REPLACED = new Set(["salary.eurRates"])
+
+function merge(base: Record<string, any>, override: Record<string, any>, prefix = ""): Record<string, any> {
+  const result: Record<string, any> = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue
+    const keyPath = prefix + key
+    const isObject = value && typeof value === "object" && !Array.isArray(value)
+    result[key] = isObject && !REPLACED.has(keyPath) ? merge(base[key] || {}, value, `${keyPath}.`) : value
+  }
+  return result
+}
+
+// Precedence: environment variables, then SURIKADO_CONFIG_FILE, then defaults
+export function loadConfig(env: Env = process.env): AppConfig {
+  const raw = merge(merge(DEFAULTS, fromFile(env)), fromEnv(env))
+  const parsed = ConfigSchema.safeParse(raw)
+
+  if (!parsed.success) {
+    throw new ConfigError(
+      parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    )
+  }
+  if (parsed.data.twilio.skipSignatureValidation && env.NODE_ENV === "production") {
+    throw new ConfigError(["twilio.skipSignatureValidation: not allowed when NODE_ENV=production"])
+  }
+  if (parsed.data.messaging.provider === "twilio" && !parsed.data.twilio.authToken) {
+    throw new ConfigError(["twilio.authToken: required when messaging.provider is \"twilio\""])
+  }
+  return parsed.data
+}
+
+let cachedConfig: AppConfig | null = null
+
+export function getConfig(): AppConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadConfig()
+  }
+  return cachedConfig
+}
@@ -0,0 +1,30 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, describe, expect, it } from "vitest"
+import { ConversationStore } from "@/lib/conversation-store"
+import { FileStorage, MemoryStorage } from "@/lib/storage"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "surikado-conversations-"))
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+describe.each([
+  ["memory", () => new MemoryStorage()],
+  ["file", () => new FileStorage(dir)],
+])("ConversationStore on %s storage", (_name, createStorage) => {
+  it("lets only one of several concurrent pollers start the webhook call", async () => {
+    const store = new ConversationStore(createStorage())
+    const claims = await Promise.all(Array.from({ length: 5 }, () => store.claimWebhookCall("req-1")))
+    expect(claims.filter(Boolean)).toHaveLength(1)
+  })
+
+  it("frees the claim with the conversation", async () => {
+    const store = new ConversationStore(createStorage())
+    expect(await store.claimWebhookCall("req-2")).toBe(true)
+    await store.deleteConversation("req-2")
+    expect(await store.claimWebhookCall("req-2")).toBe(true)
+  })
+})
@@ -0,0 +1,154 @@
+import type { BotReply } from "@/lib/bot-reply"
+import { getStorage, type StorageBackend } from "@/lib/storage"
+
+// ============================================
+// Types
+// ============================================
+
+export interface ConversationState {
+  startTime: number
+  lastEmptyMessageTime: number
+  completed: boolean
+  userPhone: string
+  userMessage: string
+  webhookCalled: boolean
+  emptyMessageCount: number
+  webhookStartTime?: number
+  processingStarted: boolean
+  isSoftSkillsFollowUp: boolean
+  requestId: string
+}
+
+export interface FinalResponse {
+  userPhone: string
+  message: string
+  reply?: BotReply
+  timestamp: number
+  success: boolean
+}
+
+export interface ActiveRequest {
+  userPhone: string
+  startTime: number
+}
+
+// ============================================
+// Conversation Store with Request Locking
+// ============================================
+
+// Conversations and responses are keyed by the client's requestId, so one
+// phone can have several outstanding requests and a stale poll can never
+// pick up the answer meant for a newer message.
+const NAMESPACES = {
+  conversations: "conversations",
+  responses: "responses",
+  activeRequests: "active-requests",
+  webhookClaims: "webhook-claims",
+}
+
+export class ConversationStore {
+  constructor(private readonly storage: StorageBackend) {}
+
+  // Active request tracking
+  async addActiveRequest(requestId: string, userPhone: string): Promise<void> {
+    await this.storage.set<ActiveRequest>(NAMESPACES.activeRequests, requestId, {
+      userPhone,
+      startTime: Date.now(),
+    })
+  }
+
+  async releaseActiveRequest(requestId: string): Promise<void> {
+    await this.storage.delete(NAMESPACES.activeRequests, requestId)
+  }
+
+  async isActiveRequestFor(requestId: string, userPhone: string): Promise<boolean> {
+    const active = await this.storage.get<ActiveRequest>(NAMESPACES.activeRequests, requestId)
+    return active?.userPhone === userPhone
+  }
+
+  async countActiveRequests(userPhone: string): Promise<number> {
+    const active = await this.storage.entries<ActiveRequest>(NAMESPACES.activeRequests)
+    return active.filter(([, request]) => request.userPhone === userPhone).length
+  }
+
+  // Polls and SSE ticks can race to start the n8n call for a request; only
+  // the one that gets true here may start it
+  async claimWebhookCall(requestId: string): Promise<boolean> {
+    return this.storage.setIfAbsent(NAMESPACES.webhookClaims, requestId, Date.now())
+  }
+
+  // Conversation methods
+  async setConversation(requestId: string, state: ConversationState): Promise<void> {
+    await this.storage.set(NAMESPACES.conversations, requestId, state)
+  }
+
+  async getConversation(requestId: string): Promise<ConversationState | undefined> {
+    return this.storage.get<ConversationState>(NAMESPACES.conversations, requestId)
+  }
+
+  async deleteConversation(requestId: string): Promise<void> {
+    await this.storage.delete(NAMESPACES.conversations, requestId)
+    await this.storage.delete(NAMESPACES.activeRequests, requestId) // Clean up active request
+    await this.storage.delete(NAMESPACES.webhookClaims, requestId)
+  }
+
+  async hasConversation(requestId: string): Promise<boolean> {
+    return (await this.getConversation(requestId)) !== undefined
+  }
+
+  // Response methods
+  async setResponse(requestId: string, response: FinalResponse): Promise<void> {
+    await this.storage.set(NAMESPACES.responses, requestId, response)
+  }
+
+  async getResponse(requestId: string): Promise<FinalResponse | undefined> {
+    return this.storage.get<FinalResponse>(NAMESPACES.responses, requestId)
+  }
+
+  async deleteResponse(requestId: string): Promise<void> {
+    await this.storage.delete(NAMESPACES.responses, requestId)
+  }
+
+  // Cleanup old data
+  async cleanup(maxAge: number): Promise<void> {
+    const now = Date.now()
+
+    // Cleanup old conversations
+    for (const [requestId, conv] of await this.storage.entries<ConversationState>(NAMESPACES.conversations)) {
+      if (now - conv.startTime > maxAge) {
+        await this.storage.delete(NAMESPACES.conversations, requestId)
+        await this.storage.delete(NAMESPACES.responses, requestId)
+        await this.storage.delete(NAMESPACES.activeRequests, requestId)
+        await this.storage.delete(NAMESPACES.webhookClaims, requestId)
+        console.log(`[Cleanup] Removed stale conversation: ${requestId}`)
+      }
+    }
+
+    // Cleanup old responses
+    for (const [requestId, response] of await this.storage.entries<FinalResponse>(NAMESPACES.responses)) {
+      if (now - response.timestamp > maxAge) {
+        await this.storage.delete(NAMESPACES.responses, requestId)
+        console.log(`[Cleanup] Removed stale response: ${requestId}`)
+      }
+    }
+
+    // Cleanup claims whose conversation is already gone
+    for (const [requestId, claimedAt] of await this.storage.entries<number>(NAMESPACES.webhookClaims)) {
+      if (now - claimedAt > maxAge) {
+        await this.storage.delete(NAMESPACES.webhookClaims, requestId)
+      }
+    }
+
+    // Cleanup locks whose request never finished
+    for (const [requestId, active] of await this.storage.entries<ActiveRequest>(NAMESPACES.activeRequests)) {
+      if (now - active.startTime > maxAge) {
+        await this.storage.delete(NAMESPACES.activeRequests, requestId)
+        console.log(`[Cleanup] Removed stale active request: ${requestId}`)
+      }
+    }
+  }
+}
+
+export function createConversationStore(): ConversationStore {
+  return new ConversationStore(getStorage())
+}
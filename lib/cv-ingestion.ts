@@ -0,0 +1,98 @@
+import crypto from "crypto"
+import { getConfig } from "@/lib/config"
+import { extractDocumentText, type DocumentKind } from "@/lib/document-text"
+import type { InboundMessage } from "@/lib/inbound-message"
+import { getMediaFetcher, type MediaFetcher } from "@/lib/media-fetcher"
+import { getStorage, type StorageBackend } from "@/lib/storage"
+
+// ============================================
+// Types
+// ============================================
+
+// What the candidate record keeps about the document it was parsed from
+export interface SourceDocument {
+  id: string
+  url: string
+  contentType?: string
+  fileName?: string
+  kind: DocumentKind
+  size: number
+  sha256: string
+  receivedAt: number
+}
+
+export interface StoredDocument extends SourceDocument {
+  candidatePhone: string
+  messageSid?: string
+  text: string
+}
+
+export interface IngestedDocument {
+  document: SourceDocument
+  text: string
+}
+
+// ============================================
+// Ingestion
+// ============================================
+
+const NAMESPACE = "documents"
+
+// Photos, voice notes and videos are never CVs; skip them without downloading
+const NON_DOCUMENT_TYPES = /^(?:image|audio|video)\//i
+
+// Text compresses well, but not by more than this in a genuine CV. Anything
+// beyond it is a decompression bomb rather than a document.
+const MAX_INFLATE_RATIO = 10
+
+// Downloads every document attached to an inbound message, extracts its text
+// and stores it under the "documents" namespace. Attachments that fail to
+// download or aren't PDF/DOCX/plain text are logged and skipped.
+export async function ingestMediaDocuments(
+  inbound: InboundMessage,
+  fetcher: MediaFetcher = getMediaFetcher(),
+  storage: StorageBackend = getStorage()
+): Promise<IngestedDocument[]> {
+  const ingested: IngestedDocument[] = []
+  const maxInflatedBytes = getConfig().media.maxBytes * MAX_INFLATE_RATIO
+
+  for (const [index, media] of inbound.media.entries()) {
+    if (media.contentType && NON_DOCUMENT_TYPES.test(media.contentType)) continue
+
+    try {
+      const fetched = await fetcher.fetch(media.url)
+      const contentType = media.contentType || fetched.contentType
+      const extracted = extractDocumentText(fetched.data, contentType, fetched.fileName, maxInflatedBytes)
+
+      if (!extracted) {
+        console.log(`[Media] Skipping unsupported or oversized attachment ${media.url} (${contentType || "unknown type"})`)
+        continue
+      }
+
+      const document: SourceDocument = {
+        id: `${inbound.messageSid || Date.now()}-${index}`,
+        url: media.url,
+        contentType,
+        fileName: fetched.fileName,
+        kind: extracted.kind,
+        size: fetched.data.length,
+        sha256: crypto.createHash("sha256").update(fetched.data).digest("hex"),
+        receivedAt: Date.now(),
+      }
+
+      await storage.set<StoredDocument>(NAMESPACE, document.id, {
+        ...document,
+        candidatePhone: inbound.from,
+        messageSid: inbound.messageSid,
+        text: extracted.text,
+      })
+
+      console.log(`[Media] 📄 Extracted ${extracted.text.length} chars from ${extracted.kind} ${document.id}`)
+      ingested.push({ document, text: extracted.text })
+    } catch (error) {
+      console.error(`[Media] Failed to ingest ${media.url}:`, error)
+    }
+  }
+
+  return ingested
+}
@@ -0,0 +1,200 @@
+import { getStorage, type StorageBackend } from "@/lib/storage"
+
+// ============================================
+// Types
+// ============================================
+
+export type DeliveryStatus =
+  | "accepted"
+  | "queued"
+  | "sending"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "undelivered"
+  | "failed"
+
+export interface DeliveryRecord {
+  messageSid: string
+  // The candidate the message went to
+  to: string
+  from?: string
+  // Known only for messages this app sent itself; required to retry
+  body?: string
+  mediaUrls?: string[]
+  status: DeliveryStatus
+  errorCode?: string
+  errorMessage?: string
+  createdAt: number
+  updatedAt: number
+  history: Array<{ status: DeliveryStatus; at: number; errorCode?: string }>
+  // Set on a failed record once it has been sent again
+  retriedAs?: string
+}
+
+export interface StatusUpdate {
+  messageSid: string
+  status: DeliveryStatus
+  to?: string
+  from?: string
+  errorCode?: string
+  errorMessage?: string
+}
+
+const STATUSES: DeliveryStatus[] = [
+  "accepted",
+  "queued",
+  "sending",
+  "sent",
+  "delivered",
+  "read",
+  "undelivered",
+  "failed",
+]
+
+// Callbacks can arrive out of order; a later step never goes back to an
+// earlier one. Failures are terminal.
+const RANK: Record<DeliveryStatus, number> = {
+  accepted: 0,
+  queued: 1,
+  sending: 2,
+  sent: 3,
+  delivered: 4,
+  read: 5,
+  undelivered: 6,
+  failed: 6,
+}
+
+export function isDeliveryStatus(value: unknown): value is DeliveryStatus {
+  return typeof value === "string" && (STATUSES as string[]).includes(value)
+}
+
+export function isFailedStatus(status: DeliveryStatus): boolean {
+  return status === "failed" || status === "undelivered"
+}
+
+// ============================================
+// Callback Parsing
+// ============================================
+
+// Classic status callback (form-encoded MessageSid, MessageStatus, ErrorCode,
+// ...) or an Event Streams CloudEvent (com.twilio.messaging.message.<status>).
+// Returns null when the payload carries no usable status.
+export function parseStatusCallback(rawBody: string, contentType: string): StatusUpdate | null {
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    const params = new URLSearchParams(rawBody)
+    const messageSid = params.get("MessageSid") || params.get("SmsSid")
+    const status = params.get("MessageStatus") || params.get("SmsStatus")
+    if (!messageSid || !isDeliveryStatus(status)) return null
+
+    return {
+      messageSid,
+      status,
+      to: params.get("To") || undefined,
+      from: params.get("From") || undefined,
+      errorCode: params.get("ErrorCode") || undefined,
+      errorMessage: params.get("ErrorMessage") || undefined,
+    }
+  }
+
+  const event = JSON.parse(rawBody)
+  const data = event?.data || {}
+  const status = typeof event?.type === "string" ? event.type.split(".").pop() : undefined
+  if (typeof data.messageSid !== "string" || !isDeliveryStatus(status)) return null
+
+  return {
+    messageSid: data.messageSid,
+    status,
+    to: data.to,
+    from: data.from,
+    errorCode: data.errorCode !== undefined && data.errorCode !== null ? String(data.errorCode) : undefined,
+    errorMessage: data.errorMessage,
+  }
+}
+
+// ============================================
+// Delivery Store
+// ============================================
+
+const NAMESPACE = "deliveries"
+
+export class DeliveryStore {
+  constructor(private readonly storage: StorageBackend) {}
+
+  // Called right after a provider accepted an outbound message
+  async recordSent(
+    message: { messageSid: string; to: string; from?: string; body?: string; mediaUrls?: string[] },
+    status: DeliveryStatus = "queued"
+  ): Promise<DeliveryRecord> {
+    const now = Date.now()
+    const existing = await this.get(message.messageSid)
+    const record: DeliveryRecord = {
+      ...existing,
+      ...message,
+      status: existing && RANK[existing.status] > RANK[status] ? existing.status : status,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      history: [...(existing?.history || []), { status, at: now }],
+    }
+    await this.storage.set(NAMESPACE, message.messageSid, record)
+    return record
+  }
+
+  // Status callbacks may beat recordSent, or be for messages sent by n8n
+  // directly; those create the record from what the callback carries.
+  async applyUpdate(update: StatusUpdate): Promise<DeliveryRecord | null> {
+    const now = Date.now()
+    const existing = await this.get(update.messageSid)
+
+    if (!existing && !update.to) {
+      console.warn(`[Delivery] Status ${update.status} for unknown ${update.messageSid} without a recipient`)
+      return null
+    }
+
+    const current = existing?.status
+    const advances = !current || RANK[update.status] >= RANK[current]
+
+    const record: DeliveryRecord = {
+      messageSid: update.messageSid,
+      to: existing?.to || update.to!,
+      from: existing?.from || update.from,
+      body: existing?.body,
+      mediaUrls: existing?.mediaUrls,
+      status: advances ? update.status : current!,
+      errorCode: update.errorCode || existing?.errorCode,
+      errorMessage: update.errorMessage || existing?.errorMessage,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      history: [...(existing?.history || []), { status: update.status, at: now, errorCode: update.errorCode }],
+      retriedAs: existing?.retriedAs,
+    }
+
+    await this.storage.set(NAMESPACE, update.messageSid, record)
+    console.log(`[Delivery] ${update.messageSid} → ${record.status}${update.errorCode ? ` (error ${update.errorCode})` : ""}`)
+    return record
+  }
+
+  async markRetried(messageSid: string, retriedAs: string): Promise<void> {
+    const existing = await this.get(messageSid)
+    if (existing) {
+      await this.storage.set(NAMESPACE, messageSid, { ...existing, retriedAs, updatedAt: Date.now() })
+    }
+  }
+
+  async get(messageSid: string): Promise<DeliveryRecord | undefined> {
+    return this.storage.get<DeliveryRecord>(NAMESPACE, messageSid)
+  }
+
+  // Newest first
+  async listFor(to: string): Promise<DeliveryRecord[]> {
+    const entries = await this.storage.entries<DeliveryRecord>(NAMESPACE)
+    return entries
+      .map(([, record]) => record)
+      .filter((record) => record.to === to)
+      .sort((a, b) => b.createdAt - a.createdAt)
+  }
+}
+
+export function createDeliveryStore(): DeliveryStore {
+  return new DeliveryStore(getStorage())
+}
@@ -0,0 +1,103 @@
+import zlib from "zlib"
+import { describe, expect, it } from "vitest"
+import { detectDocumentKind, extractDocumentText } from "@/lib/document-text"
+
+// A minimal .docx: one deflated word/document.xml entry and its central directory
+function docx(xml: string): Buffer {
+  const name = Buffer.from("word/document.xml")
+  const content = Buffer.from(xml)
+  const compressed = zlib.deflateRawSync(content)
+
+  const local = Buffer.alloc(30)
+  local.writeUInt32LE(0x04034b50, 0)
+  local.writeUInt16LE(8, 8)
+  local.writeUInt32LE(compressed.length, 18)
+  local.writeUInt32LE(content.length, 22)
+  local.writeUInt16LE(name.length, 26)
+
+  const central = Buffer.alloc(46)
+  central.writeUInt32LE(0x02014b50, 0)
+  central.writeUInt16LE(8, 10)
+  central.writeUInt32LE(compressed.length, 20)
+  central.writeUInt32LE(content.length, 24)
+  central.writeUInt16LE(name.length, 28)
+  central.writeUInt32LE(0, 42)
+
+  const centralOffset = local.length + name.length + compressed.length
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(1, 8)
+  end.writeUInt16LE(1, 10)
+  end.writeUInt32LE(central.length + name.length, 12)
+  end.writeUInt32LE(centralOffset, 16)
+
+  return Buffer.concat([local, name, compressed, central, name, end])
+}
+
+// A one-page PDF whose content stream is FlateDecode-compressed
+function pdf(content: string): Buffer {
+  const stream = zlib.deflateSync(Buffer.from(content))
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+    stream,
+    Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+  ])
+}
+
+const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`
+
+describe("extractDocumentText", () => {
+  it("reads the paragraphs of a .docx", () => {
+    const file = docx(`<w:document><w:body>${paragraph("Jane Doe")}${paragraph("Nurse &amp; carer")}</w:body></w:document>`)
+    expect(detectDocumentKind(file)).toBe("docx")
+    expect(extractDocumentText(file)).toEqual({ kind: "docx", text: "Jane Doe\nNurse & carer" })
+  })
+
+  it("reads the text shown in a compressed PDF content stream", () => {
+    const file = pdf("BT /F1 12 Tf 72 720 Td (Jane Doe) Tj 0 -14 Td (Registered nurse) Tj ET")
+    expect(extractDocumentText(file, "application/pdf")).toEqual({ kind: "pdf", text: "Jane Doe\nRegistered nurse" })
+  })
+
+  it("reads plain text", () => {
+    expect(extractDocumentText(Buffer.from("﻿Jane Doe\n"), "text/plain")).toEqual({ kind: "text", text: "Jane Doe" })
+  })
+
+  it("returns null for unsupported formats", () => {
+    expect(extractDocumentText(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0, 0]), "image/jpeg")).toBeNull()
+  })
+
+  describe("decompression bombs", () => {
+    // A few kilobytes that inflate to megabytes
+    const bomb = `<w:document><w:body>${paragraph("x".repeat(4 * 1024 * 1024))}</w:body></w:document>`
+
+    it("gives up on a .docx that inflates past the limit", () => {
+      const file = docx(bomb)
+      expect(file.length).toBeLessThan(64 * 1024)
+      expect(extractDocumentText(file, undefined, "cv.docx", 1024 * 1024)).toBeNull()
+    })
+
+    it("gives up on a PDF whose streams inflate past the limit", () => {
+      const file = pdf(`BT (${"x".repeat(4 * 1024 * 1024)}) Tj ET`)
+      expect(file.length).toBeLessThan(64 * 1024)
+      expect(extractDocumentText(file, "application/pdf", undefined, 1024 * 1024)).toBeNull()
+    })
+
+    it("counts every PDF stream against the same limit", () => {
+      const half = zlib.deflateSync(Buffer.from(`BT (${"x".repeat(600 * 1024)}) Tj ET`))
+      const object = (id: number) =>
+        Buffer.concat([
+          Buffer.from(`${id} 0 obj\n<< /Length ${half.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+          half,
+          Buffer.from("\nendstream\nendobj\n", "latin1"),
+        ])
+      const file = Buffer.concat([Buffer.from("%PDF-1.4\n"), object(4), object(5), Buffer.from("%%EOF\n")])
+      expect(extractDocumentText(file, "application/pdf", undefined, 1024 * 1024)).toBeNull()
+      expect(extractDocumentText(file, "application/pdf", undefined, 2 * 1024 * 1024)?.kind).toBe("pdf")
+    })
+
+    it("reads documents within the limit", () => {
+      const file = docx(`<w:document><w:body>${paragraph("Jane Doe")}</w:body></w:document>`)
+      expect(extractDocumentText(file, undefined, undefined, 1024)?.text).toBe("Jane Doe")
+    })
+  })
+})
@@ -0,0 +1,378 @@
+import zlib from "zlib"
+
+// ============================================
+// Types
+// ============================================
+
+export type DocumentKind = "pdf" | "docx" | "text"
+
+export interface ExtractedDocument {
+  kind: DocumentKind
+  text: string
+}
+
+// Decompressed bytes left for one document. Caps what a small crafted file
+// (a "zip bomb") can expand to.
+interface InflateBudget {
+  remaining: number
+}
+
+class InflateLimitError extends Error {
+  constructor() {
+    super("Decompressed document exceeds the size limit")
+    this.name = "InflateLimitError"
+  }
+}
+
+// ============================================
+// Detection
+// ============================================
+
+const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+
+// Content type first, then magic bytes, since Twilio sometimes reports
+// documents as application/octet-stream
+export function detectDocumentKind(data: Buffer, contentType = "", fileName = ""): DocumentKind | null {
+  const type = contentType.split(";")[0].trim().toLowerCase()
+  const name = fileName.toLowerCase()
+
+  if (type === "application/pdf" || data.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf"
+  if (type === DOCX_TYPE || name.endsWith(".docx")) return "docx"
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50 && findZipEntry(data, "word/document.xml")) return "docx"
+  if (type.startsWith("text/") || name.endsWith(".txt")) return "text"
+  if ((!type || type === "application/octet-stream") && looksLikeText(data)) return "text"
+  return null
+}
+
+// Valid UTF-8 without NUL or other binary control characters
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, 4096)
+  if (/[\x00-\x08\x0e-\x1a]/.test(sample.toString("latin1"))) return false
+  // The sample may end mid-character, so ignore its tail
+  const decoded = sample.toString("utf8").slice(0, data.length > sample.length ? -4 : undefined)
+  return !decoded.includes("\uFFFD")
+}
+
+// Returns null for unsupported formats (images, audio, legacy .doc, ...) and
+// for documents that decompress to more than `maxInflatedBytes`
+export function extractDocumentText(
+  data: Buffer,
+  contentType?: string,
+  fileName?: string,
+  maxInflatedBytes = 50 * 1024 * 1024
+): ExtractedDocument | null {
+  if (data.length < 4) return null
+
+  const budget: InflateBudget = { remaining: maxInflatedBytes }
+  const kind = detectDocumentKind(data, contentType, fileName)
+  try {
+    switch (kind) {
+      case "pdf":
+        return { kind, text: extractPdfText(data, budget) }
+      case "docx":
+        return { kind, text: extractDocxText(data, budget) }
+      case "text":
+        return { kind, text: data.toString("utf8").replace(/^\uFEFF/, "").trim() }
+      default:
+        return null
+    }
+  } catch (error) {
+    if (error instanceof InflateLimitError) return null
+    throw error
+  }
+}
+
+// Inflates within the budget; throws InflateLimitError when it runs out
+function inflate(data: Buffer, budget: InflateBudget, options: { raw?: boolean; partial?: boolean } = {}): Buffer {
+  const zlibOptions: zlib.ZlibOptions = { maxOutputLength: Math.max(1, budget.remaining) }
+  if (options.partial) zlibOptions.finishFlush = zlib.constants.Z_SYNC_FLUSH
+
+  try {
+    const output = options.raw ? zlib.inflateRawSync(data, zlibOptions) : zlib.inflateSync(data, zlibOptions)
+    budget.remaining -= output.length
+    return output
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw new InflateLimitError()
+    throw error
+  }
+}
+
+// ============================================
+// DOCX
+// ============================================
+
+// Finds one file in a zip archive via the central directory, still compressed
+function findZipEntry(zip: Buffer, entryName: string): { method: number; data: Buffer } | null {
+  let eocd = -1
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) return null
+
+  const entryCount = zip.readUInt16LE(eocd + 10)
+  let offset = zip.readUInt32LE(eocd + 16)
+
+  for (let i = 0; i < entryCount && offset + 46 <= zip.length; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) return null
+
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString("utf8")
+
+    if (name === entryName) {
+      const localNameLength = zip.readUInt16LE(localOffset + 26)
+      const localExtraLength = zip.readUInt16LE(localOffset + 28)
+      const start = localOffset + 30 + localNameLength + localExtraLength
+      return { method, data: zip.subarray(start, start + compressedSize) }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return null
+}
+
+// Reads one file out of a zip archive. Supports stored and deflated entries,
+// which is all Word writes.
+function readZipEntry(zip: Buffer, entryName: string, budget: InflateBudget): Buffer | null {
+  const entry = findZipEntry(zip, entryName)
+  if (entry?.method === 0) return entry.data
+  if (entry?.method === 8) return inflate(entry.data, budget, { raw: true })
+  return null
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number.parseInt(dec, 10)))
+    .replace(/&amp;/g, "&")
+}
+
+function extractDocxText(data: Buffer, budget: InflateBudget): string {
+  const xml = readZipEntry(data, "word/document.xml", budget)
+  if (!xml) return ""
+
+  return decodeXmlEntities(
+    xml
+      .toString("utf8")
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(?:br|cr)\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+// ============================================
+// PDF
+// ============================================
+
+// Best-effort text from page content streams: decodes FlateDecode streams and
+// reads the strings shown by Tj/TJ/'/" inside BT...ET blocks. Fonts with
+// custom encodings and scanned (image-only) PDFs yield little or no text.
+function extractPdfText(data: Buffer, budget: InflateBudget): string {
+  const source = data.toString("latin1")
+  const chunks: string[] = []
+  const streamPattern = /(?<!end)stream\r?\n/g
+
+  let match: RegExpExecArray | null
+  while ((match = streamPattern.exec(source))) {
+    // The stream's dictionary sits between "N 0 obj" and the keyword
+    const dictionary = source.slice(source.lastIndexOf("obj", match.index), match.index)
+    const start = match.index + match[0].length
+    const end = source.indexOf("endstream", start)
+    if (end < 0) break
+    streamPattern.lastIndex = end
+
+    // Fonts, images and embedded files never hold page text
+    if (/\/Subtype\s*\/(?:Image|Type1C|CIDFontType0C|OpenType)|\/Length[123]\b|\/Type\s*\/XRef/.test(dictionary)) continue
+
+    let stream = data.subarray(start, end)
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        stream = inflate(stream, budget, { partial: true })
+      } catch (error) {
+        // Over the limit stops the whole document; a corrupt stream is skipped
+        if (error instanceof InflateLimitError) throw error
+        continue
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue
+    }
+
+    const text = readContentStream(stream.toString("latin1"))
+    if (text) chunks.push(text)
+  }
+
+  return chunks
+    .join("\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+function readContentStream(content: string): string {
+  let output = ""
+  for (const [, block] of content.matchAll(/\bBT\b([\s\S]*?)\bET\b/g)) {
+    const tokens = tokenize(block)
+    let operands: Array<string | number | Array<string | number>> = []
+
+    for (const token of tokens) {
+      if (typeof token !== "object" || !("op" in token)) {
+        operands.push(token)
+        continue
+      }
+
+      switch (token.op) {
+        case "Tj":
+        case "'":
+        case '"': {
+          if (token.op !== "Tj") output += "\n"
+          const value = operands[operands.length - 1]
+          if (typeof value === "string") output += value
+          break
+        }
+        case "TJ": {
+          const array = operands[operands.length - 1]
+          if (Array.isArray(array)) {
+            for (const item of array) {
+              // Large negative kerning is how most PDFs encode a word gap
+              if (typeof item === "string") output += item
+              else if (item < -200) output += " "
+            }
+          }
+          break
+        }
+        case "Td":
+        case "TD": {
+          const y = operands[operands.length - 1]
+          output += typeof y === "number" && y !== 0 ? "\n" : " "
+          break
+        }
+        case "T*":
+        case "Tm":
+          output += "\n"
+          break
+      }
+      operands = []
+    }
+    output += "\n"
+  }
+  return output.trim()
+}
+
+type Token = string | number | Array<string | number> | { op: string }
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = []
+  const stack: Array<Array<string | number>> = []
+  let i = 0
+
+  const push = (token: string | number) => {
+    if (stack.length > 0) stack[stack.length - 1].push(token)
+    else tokens.push(token)
+  }
+
+  while (i < content.length) {
+    const char = content[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++
+    } else if (char === "(") {
+      const [text, next] = readLiteralString(content, i)
+      push(text)
+      i = next
+    } else if (char === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i)
+      push(decodeHexString(content.slice(i + 1, end < 0 ? content.length : end)))
+      i = end < 0 ? content.length : end + 1
+    } else if (char === "[") {
+      stack.push([])
+      i++
+    } else if (char === "]") {
+      const array = stack.pop()
+      if (array) {
+        if (stack.length > 0) stack[stack.length - 1].push(...array)
+        else tokens.push(array)
+      }
+      i++
+    } else {
+      const word = content.slice(i).match(/^(?:<<|>>|[^\s()<>[\]{}/%]+|\/[^\s()<>[\]{}/%]*|.)/)![0]
+      i += word.length
+      if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(word)) push(Number(word))
+      else if (!word.startsWith("/") && stack.length === 0 && /^[A-Za-z'"*]+$/.test(word)) tokens.push({ op: word })
+    }
+  }
+  return tokens
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" }
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let depth = 0
+  let text = ""
+  let i = start
+
+  while (i < content.length) {
+    const char = content[i]
+    if (char === "\\") {
+      const next = content[i + 1]
+      const octal = content.slice(i + 1).match(/^[0-7]{1,3}/)
+      if (octal) {
+        text += String.fromCharCode(Number.parseInt(octal[0], 8))
+        i += 1 + octal[0].length
+        continue
+      }
+      if (next === "\r" || next === "\n") {
+        i += next === "\r" && content[i + 2] === "\n" ? 3 : 2
+        continue
+      }
+      text += ESCAPES[next] ?? next
+      i += 2
+      continue
+    }
+    if (char === "(") {
+      depth++
+      if (depth > 1) text += char
+    } else if (char === ")") {
+      depth--
+      if (depth === 0) return [decodePdfString(text), i + 1]
+      text += char
+    } else {
+      text += char
+    }
+    i++
+  }
+  return [decodePdfString(text), i]
+}
+
+// Two-byte strings (UTF-16BE with BOM, or CID fonts that map to Unicode)
+// vs. single-byte strings
+function decodePdfString(bytes: string): string {
+  if (bytes.startsWith("\u00fe\u00ff")) {
+    return Buffer.from(bytes.slice(2), "latin1").swap16().toString("utf16le")
+  }
+  return bytes
+}
+
+function decodeHexString(hex: string): string {
+  const clean = hex.replace(/\s+/g, "")
+  const bytes = Buffer.from(clean.length % 2 ? `${clean}0` : clean, "hex")
+  if (bytes.length % 2 === 0 && bytes.length > 0 && bytes.every((byte, index) => index % 2 === 1 || byte === 0)) {
+    return Buffer.from(bytes).swap16().toString("utf16le")
+  }
+  return decodePdfString(bytes.toString("latin1"))
+}
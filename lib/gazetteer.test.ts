@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { countryByCode, findCity, findCityMention, findCountry, findCountryMention } from "@/lib/gazetteer"
+
+describe("findCountry", () => {
+  it.each(["Slovakia", "slovensko", "SVK", "SK", "Slowakei", "  Slovak Republic. "])("finds Slovakia as %s", (name) => {
+    expect(findCountry(name)).toEqual({ code: "SK", name: "Slovakia", timezone: "Europe/Bratislava" })
+  })
+
+  it("has no single timezone for countries that span several", () => {
+    expect(findCountry("U.S.A.")).toMatchObject({ code: "US", timezone: null })
+  })
+
+  it("returns null for unknown names", () => {
+    expect(findCountry("Atlantis")).toBeNull()
+  })
+})
+
+describe("countryByCode", () => {
+  it("looks up ISO codes in any case", () => {
+    expect(countryByCode("gb")?.name).toBe("United Kingdom")
+    expect(countryByCode("XX")).toBeNull()
+  })
+})
+
+describe("findCity", () => {
+  it.each(["Košice", "Kosice", "KOSICE", "Kaschau"])("finds Košice as %s", (name) => {
+    expect(findCity(name)).toEqual({ name: "Košice", countryCode: "SK", timezone: "Europe/Bratislava" })
+  })
+
+  it("returns null for unknown names", () => {
+    expect(findCity("Springfield")).toBeNull()
+  })
+})
+
+describe("mentions", () => {
+  it("finds the earliest place named in free text, with its offsets", () => {
+    const text = "I moved from Nitra to Bratislava last year"
+    expect(findCityMention(text)).toEqual({ place: expect.objectContaining({ name: "Nitra" }), start: 13, end: 18 })
+  })
+
+  it("matches whole words only", () => {
+    expect(findCityMention("We tested nitrates in the lab")).toBeNull()
+  })
+
+  it("matches country codes only when written in capitals", () => {
+    expect(findCountryMention("Based in the UK since 2019")?.place.code).toBe("GB")
+    expect(findCountryMention("uk, I'll send it later")).toBeNull()
+  })
+
+  it("ignores short codes that are easily other words", () => {
+    expect(findCountryMention("MAR 2020 - SK team lead")).toBeNull()
+  })
+})
@@ -0,0 +1,338 @@
+// ============================================
+// Types
+// ============================================
+
+export interface Country {
+  // ISO 3166-1 alpha-2
+  code: string
+  // English short name
+  name: string
+  // IANA zone, null for countries that span several
+  timezone: string | null
+}
+
+export interface City {
+  name: string
+  // ISO 3166-1 alpha-2 of the country it's in
+  countryCode: string
+  // IANA zone
+  timezone: string
+}
+
+// A gazetteer entry found in free text
+export interface PlaceMention<T> {
+  place: T
+  // Offsets of the name as written
+  start: number
+  end: number
+}
+
+// ============================================
+// Data
+// ============================================
+
+// Bundled so lookups work offline. Aliases cover local spellings, other
+// languages and ISO alpha-3 codes; matching ignores case and accents.
+
+// [code, name, timezone, aliases]
+const COUNTRIES: Array<[string, string, string | null, string[]]> = [
+  ["SK", "Slovakia", "Europe/Bratislava", ["SVK", "Slovensko", "Slovak Republic", "Slowakei", "Slovaquie", "Eslovaquia", "Slovacchia"]],
+  ["CZ", "Czechia", "Europe/Prague", ["CZE", "Czech Republic", "Česko", "Česká republika", "Tschechien", "Tchéquie", "Chequia", "República Checa"]],
+  ["PL", "Poland", "Europe/Warsaw", ["POL", "Polska", "Polen", "Pologne", "Polonia"]],
+  ["HU", "Hungary", "Europe/Budapest", ["HUN", "Magyarország", "Ungarn", "Hongrie", "Hungría", "Maďarsko"]],
+  ["AT", "Austria", "Europe/Vienna", ["AUT", "Österreich", "Autriche", "Rakúsko"]],
+  ["DE", "Germany", "Europe/Berlin", ["DEU", "Deutschland", "Allemagne", "Alemania", "Germania", "Nemecko", "Duitsland"]],
+  ["CH", "Switzerland", "Europe/Zurich", ["CHE", "Schweiz", "Suisse", "Svizzera", "Suiza", "Švajčiarsko"]],
+  ["FR", "France", "Europe/Paris", ["FRA", "Francia", "Frankreich", "Francúzsko", "Frankrijk"]],
+  ["ES", "Spain", "Europe/Madrid", ["ESP", "España", "Espanha", "Spanien", "Espagne", "Spagna", "Španielsko", "Spanje"]],
+  ["PT", "Portugal", "Europe/Lisbon", ["PRT", "Portogallo", "Portugalsko"]],
+  ["IT", "Italy", "Europe/Rome", ["ITA", "Italia", "Italien", "Italie", "Itália", "Taliansko", "Italië"]],
+  ["NL", "Netherlands", "Europe/Amsterdam", ["NLD", "Nederland", "Holland", "The Netherlands", "Niederlande", "Pays-Bas", "Países Bajos", "Holandsko"]],
+  ["BE", "Belgium", "Europe/Brussels", ["BEL", "België", "Belgique", "Belgien", "Bélgica", "Belgicko"]],
+  ["LU", "Luxembourg", "Europe/Luxembourg", ["LUX", "Luxemburg", "Luxemburgo"]],
+  ["IE", "Ireland", "Europe/Dublin", ["IRL", "Éire", "Irland", "Irlande", "Irlanda", "Írsko"]],
+  ["GB", "United Kingdom", "Europe/London", ["GBR", "UK", "U.K.", "Great Britain", "Britain", "England", "Scotland", "Wales", "Reino Unido", "Vereinigtes Königreich", "Royaume-Uni", "Regno Unito", "Veľká Británia", "Anglicko"]],
+  ["DK", "Denmark", "Europe/Copenhagen", ["DNK", "Danmark", "Dänemark", "Danemark", "Dinamarca", "Dánsko"]],
+  ["SE", "Sweden", "Europe/Stockholm", ["SWE", "Sverige", "Schweden", "Suède", "Suecia", "Švédsko"]],
+  ["NO", "Norway", "Europe/Oslo", ["NOR", "Norge", "Norwegen", "Norvège", "Noruega", "Nórsko"]],
+  ["FI", "Finland", "Europe/Helsinki", ["FIN", "Suomi", "Finnland", "Finlande", "Finlandia", "Fínsko"]],
+  ["RO", "Romania", "Europe/Bucharest", ["ROU", "România", "Rumänien", "Roumanie", "Rumania", "Rumunsko"]],
+  ["BG", "Bulgaria", "Europe/Sofia", ["BGR", "България", "Bulgarien", "Bulgarie", "Bulharsko"]],
+  ["HR", "Croatia", "Europe/Zagreb", ["HRV", "Hrvatska", "Kroatien", "Croatie", "Croacia", "Chorvátsko"]],
+  ["SI", "Slovenia", "Europe/Ljubljana", ["SVN", "Slovenija", "Slowenien", "Slovénie", "Eslovenia", "Slovinsko"]],
+  ["RS", "Serbia", "Europe/Belgrade", ["SRB", "Srbija", "Serbien", "Serbie", "Srbsko"]],
+  ["UA", "Ukraine", "Europe/Kyiv", ["UKR", "Україна", "Ukrajina", "Ucrania", "Ucraina"]],
+  ["GR", "Greece", "Europe/Athens", ["GRC", "Hellas", "Ελλάδα", "Griechenland", "Grèce", "Grecia", "Grécko"]],
+  ["TR", "Türkiye", "Europe/Istanbul", ["TUR", "Turkey", "Türkei", "Turquie", "Turquía", "Turecko"]],
+  ["RU", "Russia", null, ["RUS", "Russian Federation", "Россия", "Russland", "Russie", "Rusia", "Rusko"]],
+  ["US", "United States", null, ["USA", "U.S.", "U.S.A.", "United States of America", "Estados Unidos", "Vereinigte Staaten", "États-Unis", "Stati Uniti", "Spojené štáty"]],
+  ["CA", "Canada", null, ["CAN", "Kanada", "Canadá"]],
+  ["MX", "Mexico", null, ["MEX", "México", "Mexiko", "Mexique", "Messico"]],
+  ["BR", "Brazil", null, ["BRA", "Brasil", "Brasilien", "Brésil", "Brasile", "Brazília"]],
+  ["AR", "Argentina", "America/Argentina/Buenos_Aires", ["ARG", "Argentinien", "Argentine"]],
+  ["CO", "Colombia", "America/Bogota", ["COL", "Kolumbien", "Colombie", "Kolumbia"]],
+  ["IN", "India", "Asia/Kolkata", ["IND", "Bharat", "Indien", "Inde", "Índia"]],
+  ["PK", "Pakistan", "Asia/Karachi", ["PAK", "Pakistán"]],
+  ["BD", "Bangladesh", "Asia/Dhaka", ["BGD", "Bangladéš"]],
+  ["LK", "Sri Lanka", "Asia/Colombo", ["LKA"]],
+  ["NP", "Nepal", "Asia/Kathmandu", ["NPL"]],
+  ["PH", "Philippines", "Asia/Manila", ["PHL", "Pilipinas", "Filipinas", "Philippinen", "Filipíny"]],
+  ["VN", "Vietnam", "Asia/Ho_Chi_Minh", ["VNM", "Viet Nam", "Việt Nam"]],
+  ["CN", "China", "Asia/Shanghai", ["CHN", "中国", "Chine", "Čína"]],
+  ["JP", "Japan", "Asia/Tokyo", ["JPN", "日本", "Nippon", "Japon", "Japón", "Japonsko"]],
+  ["AE", "United Arab Emirates", "Asia/Dubai", ["ARE", "UAE", "U.A.E.", "Emirates", "Emiratos Árabes Unidos", "Vereinigte Arabische Emirate"]],
+  ["SA", "Saudi Arabia", "Asia/Riyadh", ["SAU", "KSA", "Arabia Saudita", "Saudi-Arabien", "Arabie saoudite"]],
+  ["EG", "Egypt", "Africa/Cairo", ["EGY", "مصر", "Ägypten", "Égypte", "Egipto"]],
+  ["MA", "Morocco", "Africa/Casablanca", ["MAR", "Maroc", "Marokko", "Marruecos"]],
+  ["NG", "Nigeria", "Africa/Lagos", ["NGA"]],
+  ["ZA", "South Africa", "Africa/Johannesburg", ["ZAF", "RSA", "Suid-Afrika", "Südafrika", "Afrique du Sud", "Sudáfrica"]],
+  ["KE", "Kenya", "Africa/Nairobi", ["KEN", "Kenia"]],
+  ["AU", "Australia", null, ["AUS", "Australien", "Australie"]],
+  ["NZ", "New Zealand", "Pacific/Auckland", ["NZL", "Aotearoa", "Neuseeland", "Nouvelle-Zélande", "Nueva Zelanda"]],
+]
+
+// [name, country code, timezone, aliases]
+const CITIES: Array<[string, string, string, string[]]> = [
+  ["Bratislava", "SK", "Europe/Bratislava", ["Pressburg", "Pozsony"]],
+  ["Košice", "SK", "Europe/Bratislava", ["Kaschau", "Kassa"]],
+  ["Žilina", "SK", "Europe/Bratislava", ["Sillein"]],
+  ["Nitra", "SK", "Europe/Bratislava", ["Neutra"]],
+  ["Banská Bystrica", "SK", "Europe/Bratislava", ["Neusohl"]],
+  ["Prešov", "SK", "Europe/Bratislava", ["Eperies"]],
+  ["Trnava", "SK", "Europe/Bratislava", ["Tyrnau"]],
+  ["Trenčín", "SK", "Europe/Bratislava", ["Trentschin"]],
+  ["Prague", "CZ", "Europe/Prague", ["Praha", "Prag", "Praga"]],
+  ["Brno", "CZ", "Europe/Prague", ["Brünn"]],
+  ["Ostrava", "CZ", "Europe/Prague", []],
+  ["Warsaw", "PL", "Europe/Warsaw", ["Warszawa", "Warschau", "Varsovie", "Varsovia", "Varšava"]],
+  ["Kraków", "PL", "Europe/Warsaw", ["Krakow", "Cracow", "Krakau", "Cracovia"]],
+  ["Wrocław", "PL", "Europe/Warsaw", ["Breslau"]],
+  ["Gdańsk", "PL", "Europe/Warsaw", ["Danzig"]],
+  ["Budapest", "HU", "Europe/Budapest", ["Budapešť"]],
+  ["Debrecen", "HU", "Europe/Budapest", []],
+  ["Vienna", "AT", "Europe/Vienna", ["Wien", "Viena", "Vienne", "Vídeň", "Viedeň"]],
+  ["Graz", "AT", "Europe/Vienna", []],
+  ["Linz", "AT", "Europe/Vienna", []],
+  ["Salzburg", "AT", "Europe/Vienna", []],
+  ["Berlin", "DE", "Europe/Berlin", ["Berlín", "Berlino"]],
+  ["Munich", "DE", "Europe/Berlin", ["München", "Muenchen", "Múnich", "Monaco di Baviera", "Mníchov"]],
+  ["Hamburg", "DE", "Europe/Berlin", ["Hamburgo", "Hambourg"]],
+  ["Frankfurt", "DE", "Europe/Berlin", ["Frankfurt am Main", "Francfort", "Fráncfort"]],
+  ["Cologne", "DE", "Europe/Berlin", ["Köln", "Koeln", "Colonia"]],
+  ["Stuttgart", "DE", "Europe/Berlin", []],
+  ["Düsseldorf", "DE", "Europe/Berlin", ["Duesseldorf"]],
+  ["Zurich", "CH", "Europe/Zurich", ["Zürich", "Zuerich", "Zurigo"]],
+  ["Geneva", "CH", "Europe/Zurich", ["Genève", "Genf", "Ginebra", "Ginevra"]],
+  ["Basel", "CH", "Europe/Zurich", ["Bâle", "Basilea"]],
+  ["Paris", "FR", "Europe/Paris", ["París", "Parigi", "Paríž"]],
+  ["Lyon", "FR", "Europe/Paris", ["Lione"]],
+  ["Marseille", "FR", "Europe/Paris", ["Marseilles", "Marsella", "Marsiglia"]],
+  ["Toulouse", "FR", "Europe/Paris", []],
+  ["Madrid", "ES", "Europe/Madrid", []],
+  ["Barcelona", "ES", "Europe/Madrid", ["Barcelone", "Barcellona"]],
+  ["Valencia", "ES", "Europe/Madrid", ["València"]],
+  ["Seville", "ES", "Europe/Madrid", ["Sevilla", "Séville", "Siviglia"]],
+  ["Málaga", "ES", "Europe/Madrid", ["Malaga"]],
+  ["Lisbon", "PT", "Europe/Lisbon", ["Lisboa", "Lissabon", "Lisbonne", "Lisbona"]],
+  ["Porto", "PT", "Europe/Lisbon", ["Oporto"]],
+  ["Rome", "IT", "Europe/Rome", ["Roma", "Rom", "Rím"]],
+  ["Milan", "IT", "Europe/Rome", ["Milano", "Mailand", "Milán"]],
+  ["Naples", "IT", "Europe/Rome", ["Napoli", "Neapel", "Nápoles"]],
+  ["Turin", "IT", "Europe/Rome", ["Torino", "Turín"]],
+  ["Florence", "IT", "Europe/Rome", ["Firenze", "Florenz", "Florencia"]],
+  ["Amsterdam", "NL", "Europe/Amsterdam", []],
+  ["Rotterdam", "NL", "Europe/Amsterdam", []],
+  ["The Hague", "NL", "Europe/Amsterdam", ["Den Haag", "'s-Gravenhage", "La Haye", "La Haya"]],
+  ["Utrecht", "NL", "Europe/Amsterdam", []],
+  ["Eindhoven", "NL", "Europe/Amsterdam", []],
+  ["Brussels", "BE", "Europe/Brussels", ["Bruxelles", "Brussel", "Brüssel", "Bruselas", "Brusel"]],
+  ["Antwerp", "BE", "Europe/Brussels", ["Antwerpen", "Anvers", "Amberes"]],
+  ["Luxembourg City", "LU", "Europe/Luxembourg", ["Luxembourg-Ville", "Luxemburg-Stadt"]],
+  ["Dublin", "IE", "Europe/Dublin", ["Baile Átha Cliath"]],
+  ["Cork", "IE", "Europe/Dublin", []],
+  ["London", "GB", "Europe/London", ["Londres", "Londra", "Londýn", "Londen"]],
+  ["Manchester", "GB", "Europe/London", []],
+  ["Birmingham", "GB", "Europe/London", []],
+  ["Edinburgh", "GB", "Europe/London", ["Edimburgo"]],
+  ["Glasgow", "GB", "Europe/London", []],
+  ["Copenhagen", "DK", "Europe/Copenhagen", ["København", "Kopenhagen", "Copenhague"]],
+  ["Stockholm", "SE", "Europe/Stockholm", ["Estocolmo", "Štokholm"]],
+  ["Gothenburg", "SE", "Europe/Stockholm", ["Göteborg"]],
+  ["Oslo", "NO", "Europe/Oslo", []],
+  ["Helsinki", "FI", "Europe/Helsinki", ["Helsingfors"]],
+  ["Bucharest", "RO", "Europe/Bucharest", ["București", "Bukarest", "Bucarest"]],
+  ["Cluj-Napoca", "RO", "Europe/Bucharest", ["Cluj", "Klausenburg"]],
+  ["Sofia", "BG", "Europe/Sofia", ["София", "Sofía"]],
+  ["Zagreb", "HR", "Europe/Zagreb", ["Agram"]],
+  ["Ljubljana", "SI", "Europe/Ljubljana", ["Laibach"]],
+  ["Belgrade", "RS", "Europe/Belgrade", ["Beograd", "Belgrad", "Belgrado"]],
+  ["Kyiv", "UA", "Europe/Kyiv", ["Kiev", "Київ", "Kyjev"]],
+  ["Lviv", "UA", "Europe/Kyiv", ["Lvov", "Lwów", "Lemberg", "Ľvov"]],
+  ["Athens", "GR", "Europe/Athens", ["Athina", "Αθήνα", "Athen", "Atenas", "Atény"]],
+  ["Istanbul", "TR", "Europe/Istanbul", ["İstanbul", "Estambul"]],
+  ["Ankara", "TR", "Europe/Istanbul", []],
+  ["Moscow", "RU", "Europe/Moscow", ["Moskva", "Москва", "Moskau", "Moscou", "Moscú"]],
+  ["Saint Petersburg", "RU", "Europe/Moscow", ["St. Petersburg", "St Petersburg", "Sankt-Peterburg", "Санкт-Петербург"]],
+  ["New York", "US", "America/New_York", ["New York City", "NYC", "Nueva York"]],
+  ["Los Angeles", "US", "America/Los_Angeles", ["LA"]],
+  ["Chicago", "US", "America/Chicago", []],
+  ["San Francisco", "US", "America/Los_Angeles", []],
+  ["Seattle", "US", "America/Los_Angeles", []],
+  ["Boston", "US", "America/New_York", []],
+  ["Miami", "US", "America/New_York", []],
+  ["Houston", "US", "America/Chicago", []],
+  ["Toronto", "CA", "America/Toronto", []],
+  ["Montreal", "CA", "America/Toronto", ["Montréal"]],
+  ["Vancouver", "CA", "America/Vancouver", []],
+  ["Mexico City", "MX", "America/Mexico_City", ["Ciudad de México", "CDMX"]],
+  ["São Paulo", "BR", "America/Sao_Paulo", ["Sao Paulo"]],
+  ["Rio de Janeiro", "BR", "America/Sao_Paulo", []],
+  ["Buenos Aires", "AR", "America/Argentina/Buenos_Aires", []],
+  ["Bogotá", "CO", "America/Bogota", ["Bogota"]],
+  ["Mumbai", "IN", "Asia/Kolkata", ["Bombay"]],
+  ["Delhi", "IN", "Asia/Kolkata", ["New Delhi"]],
+  ["Bengaluru", "IN", "Asia/Kolkata", ["Bangalore"]],
+  ["Chennai", "IN", "Asia/Kolkata", ["Madras"]],
+  ["Kolkata", "IN", "Asia/Kolkata", ["Calcutta"]],
+  ["Hyderabad", "IN", "Asia/Kolkata", []],
+  ["Pune", "IN", "Asia/Kolkata", ["Poona"]],
+  ["Karachi", "PK", "Asia/Karachi", []],
+  ["Lahore", "PK", "Asia/Karachi", []],
+  ["Islamabad", "PK", "Asia/Karachi", []],
+  ["Rawalpindi", "PK", "Asia/Karachi", []],
+  ["Faisalabad", "PK", "Asia/Karachi", ["Lyallpur"]],
+  ["Dhaka", "BD", "Asia/Dhaka", ["Dacca"]],
+  ["Colombo", "LK", "Asia/Colombo", []],
+  ["Kathmandu", "NP", "Asia/Kathmandu", []],
+  ["Manila", "PH", "Asia/Manila", []],
+  ["Ho Chi Minh City", "VN", "Asia/Ho_Chi_Minh", ["Saigon", "HCMC"]],
+  ["Hanoi", "VN", "Asia/Ho_Chi_Minh", ["Hà Nội"]],
+  ["Beijing", "CN", "Asia/Shanghai", ["Peking", "北京"]],
+  ["Shanghai", "CN", "Asia/Shanghai", ["上海"]],
+  ["Tokyo", "JP", "Asia/Tokyo", ["東京", "Tokio"]],
+  ["Dubai", "AE", "Asia/Dubai", ["Dubái"]],
+  ["Abu Dhabi", "AE", "Asia/Dubai", []],
+  ["Riyadh", "SA", "Asia/Riyadh", ["Riad"]],
+  ["Cairo", "EG", "Africa/Cairo", ["Le Caire", "El Cairo", "Kairo", "القاهرة"]],
+  ["Casablanca", "MA", "Africa/Casablanca", []],
+  ["Lagos", "NG", "Africa/Lagos", []],
+  ["Johannesburg", "ZA", "Africa/Johannesburg", ["Joburg"]],
+  ["Cape Town", "ZA", "Africa/Johannesburg", ["Kaapstad", "Ciudad del Cabo"]],
+  ["Nairobi", "KE", "Africa/Nairobi", []],
+  ["Sydney", "AU", "Australia/Sydney", []],
+  ["Melbourne", "AU", "Australia/Melbourne", []],
+  ["Auckland", "NZ", "Pacific/Auckland", []],
+]
+
+// ============================================
+// Lookup
+// ============================================
+
+function stripAccents(name: string): string {
+  return name.normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+}
+
+// Case, accents, punctuation and extra spaces don't matter
+function normalize(name: string): string {
+  return stripAccents(name)
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[\s-]+/g, " ")
+    .trim()
+}
+
+function index<T>(rows: Array<[T, string[]]>): Map<string, T> {
+  const byName = new Map<string, T>()
+  for (const [place, names] of rows) {
+    for (const name of names) {
+      const key = normalize(name)
+      // The first entry keeps a shared name
+      if (!byName.has(key)) byName.set(key, place)
+    }
+  }
+  return byName
+}
+
+const COUNTRY_ENTRIES = COUNTRIES.map(([code, name, timezone, aliases]) => ({
+  country: { code, name, timezone } satisfies Country,
+  names: [code, name, ...aliases],
+}))
+const CITY_ENTRIES = CITIES.map(([name, countryCode, timezone, aliases]) => ({
+  city: { name, countryCode, timezone } satisfies City,
+  names: [name, ...aliases],
+}))
+
+const COUNTRY_BY_NAME = index(COUNTRY_ENTRIES.map(({ country, names }) => [country, names]))
+const CITY_BY_NAME = index(CITY_ENTRIES.map(({ city, names }) => [city, names]))
+const COUNTRY_BY_CODE = new Map(COUNTRY_ENTRIES.map(({ country }) => [country.code, country]))
+
+// "Slovensko", "svk", "SK", "U.K." ... Null when the name isn't known.
+export function findCountry(name: string): Country | null {
+  return COUNTRY_BY_NAME.get(normalize(name)) ?? null
+}
+
+export function countryByCode(code: string): Country | null {
+  return COUNTRY_BY_CODE.get(code.toUpperCase()) ?? null
+}
+
+// "Kosice", "Pressburg", "München" ... Null when the name isn't known.
+export function findCity(name: string): City | null {
+  return CITY_BY_NAME.get(normalize(name)) ?? null
+}
+
+// ============================================
+// Mentions
+// ============================================
+
+// Codes and abbreviations are easily words or headings ("MAR 2020", "LA"),
+// so only these are looked for in free text, and only in capitals
+const MENTIONED_CODES = new Set(["UK", "U.K.", "USA", "U.S.", "U.S.A.", "UAE", "U.A.E.", "KSA", "NYC", "CDMX", "HCMC"])
+
+const isCode = (name: string) => name.replace(/\./g, "").length <= 4 && name === name.toUpperCase()
+
+// Case-insensitive for names, case-sensitive for codes. Unicode-aware word
+// boundaries, so "Nitra" doesn't match inside "Nitrate".
+function mentionPatterns(names: string[]): RegExp[] {
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const wrap = (list: string[], flags: string) =>
+    new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${list
+        .sort((a, b) => b.length - a.length)
+        .map(escape)
+        .join("|")})(?![\\p{L}\\p{N}])`,
+      flags
+    )
+
+  // "Kosice" as well as "Košice"
+  const spellings = [...new Set(names.flatMap((name) => [name, stripAccents(name)]))]
+  return [
+    wrap(spellings.filter((name) => !isCode(name)), "iu"),
+    wrap(spellings.filter((name) => MENTIONED_CODES.has(name)), "u"),
+  ]
+}
+
+function firstMention<T>(text: string, patterns: RegExp[], lookup: (name: string) => T | null): PlaceMention<T> | null {
+  let first: PlaceMention<T> | null = null
+  for (const pattern of patterns) {
+    const match = text.match(pattern)
+    const place = match && lookup(match[0])
+    if (!match || match.index === undefined || !place) continue
+    if (!first || match.index < first.start) {
+      first = { place, start: match.index, end: match.index + match[0].length }
+    }
+  }
+  return first
+}
+
+const COUNTRY_MENTIONS = mentionPatterns(COUNTRY_ENTRIES.flatMap(({ names }) => names))
+const CITY_MENTIONS = mentionPatterns(CITY_ENTRIES.flatMap(({ names }) => names))
+
+// The earliest country named anywhere in the text
+export function findCountryMention(text: string): PlaceMention<Country> | null {
+  return firstMention(text, COUNTRY_MENTIONS, findCountry)
+}
+
+// The earliest city named anywhere in the text
+export function findCityMention(text: string): PlaceMention<City> | null {
+  return firstMention(text, CITY_MENTIONS, findCity)
+}
@@ -0,0 +1,77 @@
+import { getStorage, type StorageBackend } from "@/lib/storage"
+
+// ============================================
+// Types
+// ============================================
+
+export interface IdempotencyRecord {
+  state: "in-flight" | "completed"
+  createdAt: number
+  statusCode?: number
+  body?: unknown
+}
+
+// ============================================
+// Idempotency Store
+// ============================================
+
+// Remembers the outcome of a request for `windowMs` so a double-submit or a
+// network/Twilio retry with the same key gets the original result back
+// instead of being forwarded to n8n a second time.
+const NAMESPACE = "idempotency"
+
+export class IdempotencyStore {
+  constructor(
+    private readonly storage: StorageBackend,
+    private readonly windowMs: number
+  ) {}
+
+  // Claims the key. Returns null when the caller should process the request,
+  // or the existing record when it is a replay.
+  async begin(key: string): Promise<IdempotencyRecord | null> {
+    const record: IdempotencyRecord = { state: "in-flight", createdAt: Date.now() }
+
+    if (await this.storage.setIfAbsent(NAMESPACE, key, record)) return null
+
+    const existing = await this.storage.get<IdempotencyRecord>(NAMESPACE, key)
+    if (existing && Date.now() - existing.createdAt <= this.windowMs) {
+      console.log(`[Idempotency] Replay of ${key} (${existing.state})`)
+      return existing
+    }
+
+    // The previous record expired (or vanished): start over
+    await this.storage.delete(NAMESPACE, key)
+    if (await this.storage.setIfAbsent(NAMESPACE, key, record)) return null
+    return (await this.storage.get<IdempotencyRecord>(NAMESPACE, key)) || null
+  }
+
+  // Stores the result so later replays get it back verbatim
+  async complete(key: string, statusCode: number, body: unknown): Promise<void> {
+    const existing = await this.storage.get<IdempotencyRecord>(NAMESPACE, key)
+    await this.storage.set<IdempotencyRecord>(NAMESPACE, key, {
+      state: "completed",
+      createdAt: existing?.createdAt || Date.now(),
+      statusCode,
+      body,
+    })
+  }
+
+  // Forgets the key so a retry is processed again (used after failures)
+  async release(key: string): Promise<void> {
+    await this.storage.delete(NAMESPACE, key)
+  }
+
+  async cleanup(): Promise<void> {
+    const now = Date.now()
+    for (const [key, record] of await this.storage.entries<IdempotencyRecord>(NAMESPACE)) {
+      if (now - record.createdAt > this.windowMs) {
+        await this.storage.delete(NAMESPACE, key)
+        console.log(`[Cleanup] Removed expired idempotency key: ${key}`)
+      }
+    }
+  }
+}
+
+export function createIdempotencyStore(windowMs: number): IdempotencyStore {
+  return new IdempotencyStore(getStorage(), windowMs)
+}
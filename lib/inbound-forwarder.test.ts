@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { InboundMessage } from "@/lib/inbound-message"
+
+const N8N_URL = "https://n8n.example.com/webhook/inbound"
+
+const inbound: InboundMessage = {
+  from: "whatsapp:+421900000000",
+  to: "whatsapp:+16098034599",
+  body: "Hello",
+  messageSid: "SM123",
+  media: [],
+} as unknown as InboundMessage
+
+// The queue, storage and mock provider are process-wide singletons
+async function loadForwarder() {
+  const globals = globalThis as Record<string, unknown>
+  for (const key of ["__surikadoForwardQueue", "__surikadoStorage", "__surikadoMockProvider"]) delete globals[key]
+
+  vi.resetModules()
+  vi.stubEnv("MESSAGING_PROVIDER", "mock")
+  vi.stubEnv("N8N_INBOUND_WEBHOOK_URL", N8N_URL)
+  const forwarder = await import("@/lib/inbound-forwarder")
+  const { getMockProvider } = await import("@/lib/messaging-provider")
+  return { ...forwarder, provider: getMockProvider() }
+}
+
+// Moves the clock past any retry backoff
+function later() {
+  vi.setSystemTime(Date.now() + 60 * 60 * 1000)
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  for (const method of ["log", "warn", "error"] as const) vi.spyOn(console, method).mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("inbound forward retries", () => {
+  it("retries only the delivery when n8n took the event but the reply failed to send", async () => {
+    const { buildInboundEvent, getInboundForwardQueue, provider } = await loadForwarder()
+    const fetchMock = vi.fn().mockImplementation(async () => new Response("Thanks, we got your CV"))
+    vi.stubGlobal("fetch", fetchMock)
+    const send = vi
+      .spyOn(provider, "send")
+      .mockResolvedValueOnce({ ok: false, provider: "mock", error: "Provider unavailable" })
+
+    const queue = getInboundForwardQueue()
+    await queue.enqueueFailed(buildInboundEvent(inbound), { ok: false, error: "Timeout", retryable: true })
+
+    later()
+    await queue.processDue()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(await queue.listPending()).toHaveLength(1)
+
+    later()
+    await queue.processDue()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(send.mock.calls[1][0]).toMatchObject({ to: inbound.from, body: "Thanks, we got your CV" })
+    expect(await queue.listPending()).toHaveLength(0)
+  })
+
+  it("forwards again while n8n keeps failing", async () => {
+    const { buildInboundEvent, getInboundForwardQueue, provider } = await loadForwarder()
+    const fetchMock = vi.fn().mockImplementation(async () => new Response("busy", { status: 503 }))
+    vi.stubGlobal("fetch", fetchMock)
+    const send = vi.spyOn(provider, "send")
+
+    const queue = getInboundForwardQueue()
+    await queue.enqueueFailed(buildInboundEvent(inbound), { ok: false, error: "Timeout", retryable: true })
+
+    later()
+    await queue.processDue()
+    later()
+    await queue.processDue()
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(send).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,212 @@
+import crypto from "crypto"
+import { buildEnvelope, channelOfIdentity, getChannelAdapter, resolveIdentity, type InboundEnvelope } from "@/lib/channels"
+import { parseBotReply, type BotReply } from "@/lib/bot-reply"
+import { createCandidateHistoryStore } from "@/lib/candidate-history"
+import { getConfig } from "@/lib/config"
+import { createDeliveryStore } from "@/lib/delivery-status"
+import type { InboundMessage } from "@/lib/inbound-message"
+import {
+  createMessagingProvider,
+  replyToOutbound,
+  TwimlProvider,
+  type MessagingProvider,
+  type SendResult,
+} from "@/lib/messaging-provider"
+import { RetryQueue, type AttemptOutcome, type RetryPolicy } from "@/lib/retry-queue"
+import { sessionTokenFor } from "@/lib/session-token"
+import { getStorage } from "@/lib/storage"
+
+// ============================================
+// Types
+// ============================================
+
+// The CloudEvent n8n's inbound workflow expects. The `sessiontoken`
+// extension lets the bot give the candidate access to their own history.
+export type InboundEvent = InboundEnvelope & { sessiontoken?: string }
+
+// `data` is n8n's reply: parsed JSON, or `{ response }` for plain text
+export type ForwardResult =
+  | { ok: true; data: unknown }
+  | { ok: false; error: string; status?: number; retryable: boolean }
+
+// ============================================
+// Forwarding
+// ============================================
+
+// Twilio senders are "whatsapp:+E164" or a bare "+E164" for SMS
+export function buildInboundEvent(inbound: InboundMessage): InboundEvent {
+  const config = getConfig()
+  const channel = channelOfIdentity(inbound.from)
+  const from = resolveIdentity(inbound.from, channel)?.identity || inbound.from
+
+  const envelope = buildEnvelope(
+    getChannelAdapter(channel),
+    {
+      id: inbound.eventId || inbound.messageSid || crypto.randomUUID(),
+      from,
+      to: inbound.to,
+      body: inbound.body,
+      messageSid: inbound.messageSid,
+      numSegments: inbound.numSegments,
+      numMedia: inbound.numMedia,
+      media: inbound.media,
+      recipients: inbound.recipients,
+      accountSid: inbound.accountSid,
+      messagingServiceSid: inbound.messagingServiceSid,
+    },
+    config.twilio
+  )
+  // History is kept under the sender as received
+  const sessiontoken = sessionTokenFor(inbound.from)
+  return sessiontoken ? { ...envelope, sessiontoken } : envelope
+}
+
+// Timeouts, rate limiting and server errors are worth retrying; any other
+// 4xx means n8n rejected the event and will keep rejecting it
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+// One attempt, bounded so the Twilio webhook can still answer in time
+export async function forwardInboundEvent(event: InboundEvent): Promise<ForwardResult> {
+  const config = getConfig()
+
+  try {
+    console.log("[Forward] Sending to n8n:", event.data.messageSid)
+
+    const response = await fetch(config.n8n.inboundWebhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(event),
+      signal: AbortSignal.timeout(config.timing.INBOUND_FORWARD_TIMEOUT),
+    })
+
+    if (!response.ok) {
+      console.error("[Forward] n8n error:", response.status, response.statusText)
+      return {
+        ok: false,
+        error: `API returned ${response.status}: ${response.statusText}`,
+        status: response.status,
+        retryable: isRetryableStatus(response.status),
+      }
+    }
+
+    const responseData = await response.text()
+    console.log("[Forward] n8n response:", responseData)
+
+    // Try to parse as JSON, fallback to text
+    try {
+      return { ok: true, data: JSON.parse(responseData) }
+    } catch {
+      return { ok: true, data: { response: responseData } }
+    }
+  } catch (error) {
+    console.error("[Forward] Error calling n8n:", error)
+    return {
+      ok: false,
+      error: `Failed to call external API: ${error instanceof Error ? error.message : String(error)}`,
+      retryable: true,
+    }
+  }
+}
+
+// ============================================
+// Reply Delivery
+// ============================================
+
+const deliveries = createDeliveryStore()
+const history = createCandidateHistoryStore()
+
+// Sends n8n's reply to the candidate and records it for delivery tracking
+export async function deliverReply(
+  provider: MessagingProvider,
+  reply: BotReply,
+  to: string,
+  from?: string
+): Promise<SendResult> {
+  const outbound = replyToOutbound(reply, to, from)
+  const result = await provider.send(outbound)
+  if (result.ok && result.messageSid) {
+    await deliveries.recordSent({ messageSid: result.messageSid, ...outbound }, result.status)
+  }
+  return result
+}
+
+// A retried forward finally got through: the webhook request is long gone,
+// so the reply has to go out through a provider that can start a message
+async function deliverLateReply(event: InboundEvent, reply: BotReply): Promise<AttemptOutcome> {
+  const provider = createMessagingProvider()
+  if (provider instanceof TwimlProvider) {
+    console.warn(`[Forward] ⚠️ Reply for ${event.data.messageSid} arrived after a retry; TwiML cannot deliver it`)
+    return { ok: true }
+  }
+
+  const result = await deliverReply(provider, reply, event.data.from, event.data.to)
+  if (!result.ok) {
+    return { ok: false, error: `Reply delivery failed: ${result.error || "unknown error"}`, retryable: true }
+  }
+  return { ok: true }
+}
+
+// ============================================
+// Retry Queue
+// ============================================
+
+const RETRY: RetryPolicy = {
+  maxAttempts: 8, // Up to about 20 minutes of retries at these delays
+  baseDelayMs: 5000,
+  maxDelayMs: 600000, // Never wait more than 10 minutes between attempts
+  leaseMs: 60000,
+}
+
+// n8n replies to retried events that are still to be delivered, by event id
+const PENDING_REPLIES = "n8n-forward-replies"
+
+// Once n8n has taken the event, its reply is recorded, so a failed delivery
+// is retried on its own instead of sending n8n the same event again
+async function retryForward(event: InboundEvent): Promise<AttemptOutcome> {
+  const storage = getStorage()
+  let data = await storage.get<unknown>(PENDING_REPLIES, event.id)
+  const forwarded = data === undefined
+
+  if (forwarded) {
+    const result = await forwardInboundEvent(event)
+    if (!result.ok) return result
+    data = result.data ?? null
+    await storage.set(PENDING_REPLIES, event.id, data)
+  }
+
+  const reply = parseBotReply(data)
+  if (reply.text) {
+    if (forwarded) await history.append(event.data.from, { type: "system", content: reply.text })
+    const outcome = await deliverLateReply(event, reply)
+    if (!outcome.ok) return outcome
+  }
+
+  await storage.delete(PENDING_REPLIES, event.id)
+  return { ok: true }
+}
+
+// Kept on globalThis so the timer is started once per process
+const globalForForward = globalThis as unknown as { __surikadoForwardQueue?: RetryQueue<InboundEvent> }
+
+export function getInboundForwardQueue(): RetryQueue<InboundEvent> {
+  if (!globalForForward.__surikadoForwardQueue) {
+    const queue = new RetryQueue("n8n-forward", getStorage(), retryForward, RETRY)
+    globalForForward.__surikadoForwardQueue = queue
+
+    if (getConfig().storage.backend === "memory") {
+      console.warn("[Forward] ⚠️ STORAGE_BACKEND=memory: queued n8n forwards are lost on restart")
+    }
+
+    const timer = setInterval(() => {
+      queue.processDue().catch((error) => {
+        console.error(`[Forward] Retry pass failed:`, error)
+      })
+    }, getConfig().timing.FORWARD_RETRY_INTERVAL)
+    timer.unref?.()
+  }
+  return globalForForward.__surikadoForwardQueue
+}
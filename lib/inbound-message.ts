@@ -0,0 +1,119 @@
+import { INBOUND_EVENT_TYPE } from "@/lib/channels"
+import { parseCloudEvents, type CloudEvent, type CloudEventMode } from "@/lib/cloudevents"
+
+// ============================================
+// Types
+// ============================================
+
+export interface InboundMedia {
+  url: string
+  contentType?: string
+}
+
+// One internal shape for an inbound message, whichever way Twilio sent it
+export interface InboundMessage {
+  format: "cloudevent" | "form"
+  // CloudEvent id, when the message arrived as an event
+  eventId?: string
+  messageSid?: string
+  accountSid?: string
+  messagingServiceSid?: string
+  from: string
+  to?: string
+  body: string
+  profileName?: string
+  numSegments: number
+  numMedia: number
+  media: InboundMedia[]
+  recipients: unknown[]
+}
+
+// ============================================
+// Adapters
+// ============================================
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined
+}
+
+// Classic Twilio webhook: application/x-www-form-urlencoded fields
+// (Body, From, To, MessageSid, NumMedia, MediaUrl0, MediaContentType0, ...)
+export function fromTwilioForm(params: URLSearchParams): InboundMessage {
+  const numMedia = Number.parseInt(params.get("NumMedia") || "0") || 0
+  const media: InboundMedia[] = []
+  for (let i = 0; i < numMedia; i++) {
+    const url = params.get(`MediaUrl${i}`)
+    if (url) media.push({ url, contentType: params.get(`MediaContentType${i}`) || undefined })
+  }
+
+  return {
+    format: "form",
+    messageSid: optionalString(params.get("MessageSid") || params.get("SmsMessageSid")),
+    accountSid: optionalString(params.get("AccountSid")),
+    messagingServiceSid: optionalString(params.get("MessagingServiceSid")),
+    from: params.get("From") || "",
+    to: optionalString(params.get("To")),
+    body: params.get("Body") || "",
+    profileName: optionalString(params.get("ProfileName")),
+    numSegments: Number.parseInt(params.get("NumSegments") || "1") || 1,
+    numMedia,
+    media,
+    recipients: [],
+  }
+}
+
+// CloudEvents envelope (com.twilio.messaging.inbound-message.received)
+export function fromCloudEvent(event: CloudEvent): InboundMessage {
+  const data: any = event.data && typeof event.data === "object" ? event.data : {}
+  const media: InboundMedia[] = (Array.isArray(data.media) ? data.media : [])
+    .map((item: any) => ({
+      url: item?.url || item?.mediaUrl,
+      contentType: optionalString(item?.contentType),
+    }))
+    .filter((item: InboundMedia) => typeof item.url === "string")
+
+  return {
+    format: "cloudevent",
+    eventId: event.id,
+    messageSid: optionalString(data.messageSid),
+    accountSid: optionalString(data.accountSid),
+    messagingServiceSid: optionalString(data.messagingServiceSid),
+    from: data.from || "",
+    to: optionalString(data.to),
+    body: typeof data.body === "string" ? data.body : "",
+    profileName: optionalString(data.profileName),
+    numSegments: Number(data.numSegments) || 1,
+    numMedia: Number(data.numMedia) || media.length,
+    media,
+    recipients: Array.isArray(data.recipients) ? data.recipients : [],
+  }
+}
+
+// One entry per message in the request. Events of other types are reported
+// back instead of being processed.
+export type InboundItem =
+  | { eventId?: string; message: InboundMessage }
+  | { eventId: string; type: string; error: string }
+
+// Picks the adapter from the content type: a classic form post, or CloudEvents
+// in structured, binary or batch mode. Throws CloudEventError when the events
+// themselves are malformed.
+export function parseInboundRequest(
+  rawBody: string,
+  headers: Headers
+): { mode: "form" | CloudEventMode; items: InboundItem[] } {
+  const contentType = headers.get("content-type") || ""
+  if (contentType.includes("application/x-www-form-urlencoded") && !headers.has("ce-specversion")) {
+    return { mode: "form", items: [{ message: fromTwilioForm(new URLSearchParams(rawBody)) }] }
+  }
+
+  const { mode, events } = parseCloudEvents(rawBody, headers)
+  return {
+    mode,
+    items: events.map((event) =>
+      event.type === INBOUND_EVENT_TYPE
+        ? { eventId: event.id, message: fromCloudEvent(event) }
+        : { eventId: event.id, type: event.type, error: `Unsupported event type: ${event.type}` }
+    ),
+  }
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import type { AppConfig } from "@/lib/config"
+import { isTwilioMediaHost, MediaTooLargeError, TwilioMediaFetcher } from "@/lib/media-fetcher"
+
+const twilio = { accountSid: "AC123", authToken: "secret" } as AppConfig["twilio"]
+const MEDIA_URL = "https://api.twilio.com/2010-04-01/Accounts/AC123/Messages/MM1/Media/ME1"
+
+// A body delivered in chunks, without a content-length header
+function chunkedResponse(chunks: number, chunkSize: number) {
+  let sent = 0
+  const cancel = vi.fn()
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent++ < chunks) controller.enqueue(new Uint8Array(chunkSize))
+      else controller.close()
+    },
+    cancel,
+  })
+  return { response: new Response(body, { headers: { "content-type": "application/pdf" } }), cancel, sent: () => sent }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("isTwilioMediaHost", () => {
+  it.each([MEDIA_URL, "https://media.twiliocdn.twilio.com/x", "https://twilio.com/x"])("accepts %s", (url) => {
+    expect(isTwilioMediaHost(url)).toBe(true)
+  })
+
+  it.each([
+    "https://attacker.example.com/Media/ME1",
+    "https://api.twilio.com.attacker.example/Media/ME1",
+    "https://eviltwilio.com/Media/ME1",
+    "http://api.twilio.com/Media/ME1",
+    "not a url",
+  ])("rejects %s", (url) => {
+    expect(isTwilioMediaHost(url)).toBe(false)
+  })
+})
+
+describe("TwilioMediaFetcher", () => {
+  it("never sends credentials to a non-Twilio host", async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal("fetch", fetchMock)
+
+    await expect(new TwilioMediaFetcher(twilio, 1024).fetch("https://attacker.example.com/ME1")).rejects.toThrow(
+      /non-Twilio host/
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it("authenticates to Twilio with the account credentials", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("CV", { headers: { "content-type": "text/plain" } }))
+    vi.stubGlobal("fetch", fetchMock)
+
+    const media = await new TwilioMediaFetcher(twilio, 1024).fetch(MEDIA_URL)
+    expect(media).toMatchObject({ contentType: "text/plain" })
+    expect(media.data.toString()).toBe("CV")
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(`Basic ${Buffer.from("AC123:secret").toString("base64")}`)
+  })
+
+  it("rejects a declared length over the limit without reading the body", async () => {
+    const { response, sent } = chunkedResponse(10, 1024)
+    response.headers.set("content-length", String(10 * 1024))
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(response))
+
+    await expect(new TwilioMediaFetcher(twilio, 4096).fetch(MEDIA_URL)).rejects.toBeInstanceOf(MediaTooLargeError)
+    expect(sent()).toBeLessThanOrEqual(1)
+  })
+
+  it("stops streaming an undeclared body as soon as it passes the limit", async () => {
+    const { response, cancel, sent } = chunkedResponse(1000, 1024)
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(response))
+
+    await expect(new TwilioMediaFetcher(twilio, 4096).fetch(MEDIA_URL)).rejects.toBeInstanceOf(MediaTooLargeError)
+    expect(cancel).toHaveBeenCalled()
+    expect(sent()).toBeLessThan(10)
+  })
+
+  it("reads an undeclared body within the limit", async () => {
+    const { response } = chunkedResponse(3, 1024)
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(response))
+
+    const media = await new TwilioMediaFetcher(twilio, 4096).fetch(MEDIA_URL)
+    expect(media.data.length).toBe(3 * 1024)
+  })
+})
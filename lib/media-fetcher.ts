@@ -0,0 +1,156 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { getConfig, type AppConfig } from "@/lib/config"
+
+// ============================================
+// Types
+// ============================================
+
+export interface FetchedMedia {
+  data: Buffer
+  contentType?: string
+  fileName?: string
+}
+
+// Downloads an inbound attachment. Swappable so local development and
+// demos can run without Twilio credentials or network access.
+export interface MediaFetcher {
+  fetch(url: string): Promise<FetchedMedia>
+}
+
+export class MediaTooLargeError extends Error {
+  constructor(url: string, maxBytes: number) {
+    super(`Media at ${url} exceeds ${maxBytes} bytes`)
+    this.name = "MediaTooLargeError"
+  }
+}
+
+// "attachment; filename="CV.pdf"" -> "CV.pdf"
+function fileNameFromDisposition(header: string | null): string | undefined {
+  const match = header?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)
+  return match ? decodeURIComponent(match[1]) : undefined
+}
+
+// ============================================
+// Twilio Fetcher
+// ============================================
+
+// Only Twilio's own hosts get the account credentials. MediaUrl comes from the
+// request body, so a forged or misconfigured URL must not receive them.
+export function isTwilioMediaHost(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url)
+    return protocol === "https:" && (hostname === "twilio.com" || hostname.endsWith(".twilio.com"))
+  } catch {
+    return false
+  }
+}
+
+// Twilio media URLs redirect to a signed download. With HTTP basic auth
+// enforced on media, the account credentials are required.
+export class TwilioMediaFetcher implements MediaFetcher {
+  constructor(
+    private readonly twilio: AppConfig["twilio"],
+    private readonly maxBytes: number
+  ) {}
+
+  async fetch(url: string): Promise<FetchedMedia> {
+    if (!isTwilioMediaHost(url)) {
+      throw new Error(`Refusing to fetch media from non-Twilio host: ${url}`)
+    }
+
+    const headers: Record<string, string> = {}
+    if (this.twilio.authToken) {
+      const credentials = `${this.twilio.accountSid}:${this.twilio.authToken}`
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`
+    }
+
+    // fetch drops Authorization when a redirect leaves the origin, so the
+    // signed download host never sees the credentials either
+    const response = await fetch(url, { headers, redirect: "follow" })
+    if (!response.ok) {
+      throw new Error(`Media download failed with HTTP ${response.status}`)
+    }
+
+    const declaredLength = Number(response.headers.get("content-length"))
+    if (declaredLength > this.maxBytes) throw new MediaTooLargeError(url, this.maxBytes)
+
+    return {
+      data: await this.readBody(url, response),
+      contentType: response.headers.get("content-type") || undefined,
+      fileName: fileNameFromDisposition(response.headers.get("content-disposition")),
+    }
+  }
+
+  // Streams the body and gives up as soon as it passes maxBytes, whether or
+  // not the server declared a length
+  private async readBody(url: string, response: Response): Promise<Buffer> {
+    if (!response.body) return Buffer.alloc(0)
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let received = 0
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      received += value.length
+      if (received > this.maxBytes) {
+        await reader.cancel().catch(() => {})
+        throw new MediaTooLargeError(url, this.maxBytes)
+      }
+      chunks.push(value)
+    }
+    return Buffer.concat(chunks)
+  }
+}
+
+// ============================================
+// Stub Fetcher
+// ============================================
+
+const EXTENSION_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".txt": "text/plain",
+}
+
+// Serves the file in `dir` named after the last segment of the media URL,
+// e.g. https://api.twilio.com/.../Media/ME123 -> <dir>/ME123 (or ME123.pdf)
+export class StubMediaFetcher implements MediaFetcher {
+  constructor(
+    private readonly dir: string,
+    private readonly maxBytes: number
+  ) {}
+
+  async fetch(url: string): Promise<FetchedMedia> {
+    const name = path.basename(new URL(url).pathname)
+    const candidates = [name, ...Object.keys(EXTENSION_TYPES).map((extension) => `${name}${extension}`)]
+
+    for (const candidate of candidates) {
+      const file = path.join(this.dir, candidate)
+      const stat = await fs.stat(file).catch(() => null)
+      if (!stat?.isFile()) continue
+      if (stat.size > this.maxBytes) throw new MediaTooLargeError(url, this.maxBytes)
+
+      console.log(`[Media] Serving stub ${file} for ${url}`)
+      return {
+        data: await fs.readFile(file),
+        contentType: EXTENSION_TYPES[path.extname(candidate).toLowerCase()],
+        fileName: candidate,
+      }
+    }
+
+    throw new Error(`No stub media for ${name} in ${this.dir}`)
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+export function getMediaFetcher(): MediaFetcher {
+  const { media, twilio } = getConfig()
+  return media.fetcher === "stub"
+    ? new StubMediaFetcher(media.stubDir, media.maxBytes)
+    : new TwilioMediaFetcher(twilio, media.maxBytes)
+}
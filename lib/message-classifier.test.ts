@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import { classifyMessage, DEFAULT_TAXONOMY, type Taxonomy } from "@/lib/message-classifier"
+
+const terms = (message: string) => classifyMessage(message, DEFAULT_TAXONOMY).matches.map((match) => match.term)
+
+describe("classifyMessage", () => {
+  describe("known misclassifications", () => {
+    it.each([
+      ["api", "We need a rapid turnaround on this"],
+      ["api", "Therapist by training"],
+      ["git", "I work in digital marketing"],
+      ["git", "That sounds legit"],
+      ["java", "I drink a lot of javanese coffee"],
+      ["node", "The nodes in the graph"],
+      ["sql", "The demo runs on sqlite"],
+      ["react", "It started a chain reaction"],
+      ["aws", "Those are the laws of physics"],
+      ["agile", "Fragile packaging"],
+      ["css", "I style everything with SCSS"],
+      ["cloud", "Cloudy weather today"],
+    ])('does not match "%s" inside another word: %s', (term, message) => {
+      expect(terms(message)).not.toContain(term)
+    })
+
+    it("does not route on a technical term inside another word", () => {
+      const result = classifyMessage("I love digital products and rapid prototyping")
+      expect(result.isTechnicalSkills).toBe(false)
+      expect(result.isSoftSkills).toBe(false)
+      expect(result.matches).toEqual([])
+    })
+
+    it("does not confuse c# with a plain c", () => {
+      expect(terms("I got a C in maths")).not.toContain("c#")
+      expect(terms("Five years of C# and .NET")).toContain("c#")
+    })
+  })
+
+  describe("whole-word matching", () => {
+    it("matches technical terms on their own", () => {
+      expect(terms("I use git and a REST API daily")).toEqual(expect.arrayContaining(["git", "rest api", "api"]))
+    })
+
+    it("matches terms next to punctuation", () => {
+      expect(terms("Skills: Java, SQL; Docker.")).toEqual(expect.arrayContaining(["java", "sql", "docker"]))
+    })
+
+    it("treats spaces and hyphens in a term as interchangeable", () => {
+      expect(terms("I am good at problem solving")).toContain("problem-solving")
+      expect(terms("I am good at problem-solving")).toContain("problem-solving")
+    })
+
+    it("is case-insensitive", () => {
+      expect(terms("TEAMWORK matters")).toContain("teamwork")
+    })
+  })
+
+  describe("routing", () => {
+    it("routes soft skills questions to the soft skills flow", () => {
+      const result = classifyMessage("What are your soft skills?")
+      expect(result.isSoftSkills).toBe(true)
+      expect(result.isTechnicalSkills).toBe(false)
+      expect(result.score).toBeGreaterThanOrEqual(DEFAULT_TAXONOMY.softSkillsThreshold)
+    })
+
+    it("flags technical skills only when there are no soft skills", () => {
+      expect(classifyMessage("I know Java and Docker").isTechnicalSkills).toBe(true)
+      expect(classifyMessage("I know Java and have great teamwork").isTechnicalSkills).toBe(false)
+    })
+
+    it("routes nothing for a plain message", () => {
+      const result = classifyMessage("Hello, I saw your job posting")
+      expect(result).toMatchObject({ isSoftSkills: false, isTechnicalSkills: false, score: 0, matches: [] })
+    })
+
+    it("explains its decision", () => {
+      const { reasons } = classifyMessage("Teamwork and communication")
+      expect(reasons).toContain('soft-skill: "teamwork" (+1)')
+      expect(reasons[reasons.length - 1]).toBe("soft skills score 2 >= threshold 1")
+    })
+
+    it("uses a custom taxonomy and threshold", () => {
+      const taxonomy: Taxonomy = {
+        softSkillsThreshold: 2,
+        categories: [{ id: "care", kind: "soft-skills", weight: 1, terms: ["empathy", "patience"] }],
+      }
+      expect(classifyMessage("empathy", taxonomy).isSoftSkills).toBe(false)
+      expect(classifyMessage("empathy and patience", taxonomy).isSoftSkills).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,152 @@
+// ============================================
+// Types
+// ============================================
+
+// Shared by the chat page and /api/send-message so both sides route a
+// message the same way. Must stay free of server-only imports.
+
+export interface TaxonomyCategory {
+  id: string
+  // "soft-skills" categories add to the routing score; "technical" ones are
+  // only reported
+  kind: "soft-skills" | "technical"
+  weight: number
+  terms: string[]
+}
+
+export interface Taxonomy {
+  categories: TaxonomyCategory[]
+  // Minimum soft skills score for a message to use the soft skills flow
+  softSkillsThreshold: number
+}
+
+export interface TermMatch {
+  category: string
+  term: string
+  weight: number
+}
+
+export interface Classification {
+  isSoftSkills: boolean
+  isTechnicalSkills: boolean
+  score: number
+  matches: TermMatch[]
+  reasons: string[]
+}
+
+// ============================================
+// Default Taxonomy
+// ============================================
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  softSkillsThreshold: 1,
+  categories: [
+    {
+      id: "soft-skills-question",
+      kind: "soft-skills",
+      weight: 3,
+      terms: [
+        "soft skills", "primary skills", "what soft skills",
+        "what are your soft skills", "tell me about your skills",
+        "what skills do you have", "what are your primary skills",
+        "describe your skills",
+      ],
+    },
+    {
+      id: "soft-skill",
+      kind: "soft-skills",
+      weight: 1,
+      terms: [
+        "teamwork", "problem-solving", "communication", "adaptability",
+        "technical leadership", "collaboration", "leadership",
+        "critical thinking", "time management", "creativity",
+      ],
+    },
+    {
+      id: "technical-skill",
+      kind: "technical",
+      weight: 1,
+      terms: [
+        "java", "spring", "framework", "sql", "spring boot", "rest api",
+        "git", "docker", "postgresql", "maven", "oracle", "kubernetes",
+        "java ee", "python", "javascript", "react", "node", "node.js", "aws",
+        "azure", "cloud", "database", "api", "microservices", "devops",
+        "html", "css", "typescript", "angular", "vue", "mongodb",
+        "mysql", "redis", "kafka", "jenkins", "ansible", "terraform",
+        "agile", "scrum", "ci/cd", "testing", "debugging", "c#",
+      ],
+    },
+  ],
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/#-]/g, "\\$&")
+}
+
+// Whole-word match: "api" must not match "rapid" and "git" must not match
+// "digital". Spaces and hyphens inside a term are interchangeable, so
+// "problem-solving" also matches "problem solving".
+export function termPattern(term: string): RegExp {
+  const body = term
+    .trim()
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .map(escapeRegExp)
+    .join("[\\s-]+")
+  return new RegExp(`(?<![\\w#+])${body}(?![\\w#+])`, "i")
+}
+
+const patternCache = new Map<string, RegExp>()
+
+function matchesTerm(text: string, term: string): boolean {
+  let pattern = patternCache.get(term)
+  if (!pattern) {
+    pattern = termPattern(term)
+    patternCache.set(term, pattern)
+  }
+  return pattern.test(text)
+}
+
+// ============================================
+// Classifier
+// ============================================
+
+export function classifyMessage(message: string, taxonomy: Taxonomy = DEFAULT_TAXONOMY): Classification {
+  const matches: TermMatch[] = []
+
+  for (const category of taxonomy.categories) {
+    for (const term of category.terms) {
+      if (matchesTerm(message, term)) {
+        matches.push({ category: category.id, term, weight: category.weight })
+      }
+    }
+  }
+
+  const kindOf = (categoryId: string) =>
+    taxonomy.categories.find((category) => category.id === categoryId)?.kind
+
+  const softMatches = matches.filter((match) => kindOf(match.category) === "soft-skills")
+  const technicalMatches = matches.filter((match) => kindOf(match.category) === "technical")
+
+  const score = softMatches.reduce((total, match) => total + match.weight, 0)
+  const isSoftSkills = score >= taxonomy.softSkillsThreshold
+
+  const reasons = matches.map((match) => `${match.category}: "${match.term}" (+${match.weight})`)
+  reasons.push(
+    isSoftSkills
+      ? `soft skills score ${score} >= threshold ${taxonomy.softSkillsThreshold}`
+      : `soft skills score ${score} < threshold ${taxonomy.softSkillsThreshold}`
+  )
+
+  return {
+    isSoftSkills,
+    isTechnicalSkills: technicalMatches.length > 0 && !isSoftSkills,
+    score,
+    matches,
+    reasons,
+  }
+}
@@ -0,0 +1,173 @@
+import { blocksToText, type BotReply } from "@/lib/bot-reply"
+import { getConfig, type AppConfig } from "@/lib/config"
+import { isDeliveryStatus, type DeliveryStatus } from "@/lib/delivery-status"
+
+// ============================================
+// Types
+// ============================================
+
+export interface OutboundMessage {
+  to: string
+  from?: string
+  body: string
+  mediaUrls?: string[]
+}
+
+export interface SendResult {
+  ok: boolean
+  provider: MessagingProvider["name"]
+  messageSid?: string
+  // Initial delivery status, when the provider reports one
+  status?: DeliveryStatus
+  error?: string
+}
+
+export interface MessagingProvider {
+  readonly name: "twiml" | "twilio" | "mock"
+  send(message: OutboundMessage): Promise<SendResult>
+}
+
+// WhatsApp has no buttons or rich blocks here: media blocks become
+// attachments and everything else is flattened to text
+export function replyToOutbound(reply: BotReply, to: string, from?: string): OutboundMessage {
+  const mediaUrls = reply.blocks.flatMap((block) => (block.type === "media" ? [block.url] : []))
+  const textBlocks = reply.blocks.filter((block) => block.type !== "media")
+  const body = textBlocks.length > 0 ? blocksToText(textBlocks) : reply.text
+
+  return { to, from, body, mediaUrls }
+}
+
+// ============================================
+// TwiML Response Provider
+// ============================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+// Replies by answering Twilio's webhook request with TwiML. Only works for
+// classic (form-encoded) webhooks; create one per request and return
+// toTwiml() as the response body.
+export class TwimlProvider implements MessagingProvider {
+  readonly name = "twiml" as const
+  private readonly messages: OutboundMessage[] = []
+
+  constructor(private readonly statusCallbackUrl?: string) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    this.messages.push(message)
+    return { ok: true, provider: this.name }
+  }
+
+  toTwiml(): string {
+    const body = this.messages
+      .map((message) => {
+        const media = (message.mediaUrls || []).map((url) => `<Media>${escapeXml(url)}</Media>`).join("")
+        const callback = this.statusCallbackUrl ? ` statusCallback="${escapeXml(this.statusCallbackUrl)}"` : ""
+        return `<Message${callback}><Body>${escapeXml(message.body)}</Body>${media}</Message>`
+      })
+      .join("")
+    return `<?xml version="1.0" encoding="UTF-8"?><Response>${body}</Response>`
+  }
+}
+
+// ============================================
+// Twilio REST Provider
+// ============================================
+
+export class TwilioRestProvider implements MessagingProvider {
+  readonly name = "twilio" as const
+
+  constructor(
+    private readonly twilio: AppConfig["twilio"],
+    private readonly messaging: AppConfig["messaging"]
+  ) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const { accountSid, authToken } = this.twilio
+    const form = new URLSearchParams({
+      To: message.to,
+      From: message.from || this.twilio.botNumber,
+      Body: message.body,
+    })
+    for (const url of message.mediaUrls || []) form.append("MediaUrl", url)
+    if (this.messaging.statusCallbackUrl) form.append("StatusCallback", this.messaging.statusCallbackUrl)
+
+    try {
+      const response = await fetch(`${this.messaging.twilioApiBaseUrl}/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+        },
+        body: form.toString(),
+      })
+
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        console.error(`[Outbound] Twilio REST error ${response.status}:`, result)
+        return { ok: false, provider: this.name, error: result.message || `HTTP ${response.status}` }
+      }
+
+      console.log(`[Outbound] ✅ Sent ${result.sid} to ${message.to}`)
+      return {
+        ok: true,
+        provider: this.name,
+        messageSid: result.sid,
+        status: isDeliveryStatus(result.status) ? result.status : "queued",
+      }
+    } catch (error) {
+      console.error(`[Outbound] Error sending via Twilio REST:`, error)
+      return { ok: false, provider: this.name, error: error instanceof Error ? error.message : "Unknown error" }
+    }
+  }
+}
+
+// ============================================
+// Mock Provider
+// ============================================
+
+// Logs messages instead of sending them, for local development. Nothing is
+// kept, since the mock is the default provider and runs for as long as the
+// server does.
+export class MockProvider implements MessagingProvider {
+  readonly name = "mock" as const
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const messageSid = `SMmock${Date.now()}${Math.random().toString(36).slice(2, 8)}`
+    console.log(`[Outbound] 📭 Mock sent to ${message.to}: ${message.body.substring(0, 50)}`)
+    return { ok: true, provider: this.name, messageSid, status: "sent" }
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+const globalForMessaging = globalThis as unknown as { __surikadoMockProvider?: MockProvider }
+
+// One shared mock, so a test can spy on what the app sends through it
+export function getMockProvider(): MockProvider {
+  if (!globalForMessaging.__surikadoMockProvider) {
+    globalForMessaging.__surikadoMockProvider = new MockProvider()
+  }
+  return globalForMessaging.__surikadoMockProvider
+}
+
+// TwiML providers hold per-request state, so call this once per request
+export function createMessagingProvider(): MessagingProvider {
+  const config = getConfig()
+  switch (config.messaging.provider) {
+    case "twiml":
+      return new TwimlProvider(config.messaging.statusCallbackUrl)
+    case "twilio":
+      return new TwilioRestProvider(config.twilio, config.messaging)
+    case "mock":
+      return getMockProvider()
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+const TOKEN = "operator-token-0123456789"
+const URL = "https://bot.example.com/api/message-status?toPhone=whatsapp:+421900000000"
+
+// getConfig() caches, so every test loads the module afresh with its own env
+async function loadOperatorAuth(env: Record<string, string>) {
+  vi.resetModules()
+  for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value)
+  return import("@/lib/operator-auth")
+}
+
+const request = (headers: Record<string, string> = {}) => new NextRequest(URL, { headers })
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe("verifyOperatorRequest", () => {
+  it("accepts the configured bearer token", async () => {
+    const { verifyOperatorRequest } = await loadOperatorAuth({ OPERATOR_TOKEN: TOKEN })
+    expect(verifyOperatorRequest(request({ authorization: `Bearer ${TOKEN}` }))).toEqual({ ok: true })
+  })
+
+  it("rejects a missing or wrong token", async () => {
+    const { verifyOperatorRequest } = await loadOperatorAuth({ OPERATOR_TOKEN: TOKEN })
+    expect(verifyOperatorRequest(request())).toMatchObject({ ok: false, status: 401 })
+    expect(verifyOperatorRequest(request({ authorization: `Bearer ${TOKEN.slice(0, -1)}` }))).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it("stays open without a token outside production", async () => {
+    const { verifyOperatorRequest } = await loadOperatorAuth({ NODE_ENV: "development" })
+    expect(verifyOperatorRequest(request())).toEqual({ ok: true })
+  })
+
+  it("refuses every request without a token in production", async () => {
+    const { verifyOperatorRequest } = await loadOperatorAuth({ NODE_ENV: "production" })
+    expect(verifyOperatorRequest(request({ authorization: "Bearer anything" }))).toMatchObject({ ok: false, status: 503 })
+  })
+})
@@ -0,0 +1,28 @@
+import crypto from "crypto"
+import type { NextRequest } from "next/server"
+import { getConfig } from "@/lib/config"
+import type { VerificationResult } from "@/lib/twilio-signature"
+
+// Operator endpoints (dead letters, delivery status and retries) expose candidate messages, so they
+// need `Authorization: Bearer <OPERATOR_TOKEN>`. Without a token configured
+// they stay open for local development and are refused in production.
+export function verifyOperatorRequest(request: NextRequest): VerificationResult {
+  const { token } = getConfig().operator
+
+  if (!token) {
+    if (process.env.NODE_ENV === "production") {
+      console.error("[Operator] OPERATOR_TOKEN is not configured, rejecting request")
+      return { ok: false, status: 503, error: "Operator access is not configured" }
+    }
+    return { ok: true }
+  }
+
+  const provided = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || ""
+  const expected = Buffer.from(token)
+  const actual = Buffer.from(provided)
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return { ok: false, status: 401, error: "Invalid operator token" }
+  }
+  return { ok: true }
+}
@@ -0,0 +1,84 @@
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { clientIp, RateLimiter, type BucketPolicy } from "@/lib/rate-limit"
+import { MemoryStorage } from "@/lib/storage"
+
+const generous: BucketPolicy = { burst: 10, perMinute: 10 }
+const tight: BucketPolicy = { burst: 1, perMinute: 1 }
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("RateLimiter", () => {
+  it("allows a burst, then asks the caller to wait", async () => {
+    const limiter = new RateLimiter(new MemoryStorage(), true)
+    const policy: BucketPolicy = { burst: 2, perMinute: 6 }
+
+    expect(await limiter.take("a", policy)).toEqual({ allowed: true })
+    expect(await limiter.take("a", policy)).toEqual({ allowed: true })
+    expect(await limiter.take("a", policy)).toEqual({ allowed: false, retryAfterSeconds: 10, key: "a" })
+
+    vi.setSystemTime(Date.now() + 10_000)
+    expect(await limiter.take("a", policy)).toEqual({ allowed: true })
+  })
+
+  it("takes nothing from any bucket when one of them refuses", async () => {
+    const storage = new MemoryStorage()
+    const limiter = new RateLimiter(storage, true)
+    await limiter.take("phone", tight)
+
+    const refused = await limiter.takeAll([
+      ["ip", generous],
+      ["phone", tight],
+    ])
+    expect(refused).toMatchObject({ allowed: false, key: "phone" })
+    expect(await storage.get("rate-limits", "ip")).toBeUndefined()
+  })
+
+  it("takes from every bucket when all of them allow", async () => {
+    const limiter = new RateLimiter(new MemoryStorage(), true)
+    expect(await limiter.takeAll([["ip", tight], ["phone", tight]])).toEqual({ allowed: true })
+    expect(await limiter.take("ip", tight)).toMatchObject({ allowed: false })
+    expect(await limiter.take("phone", tight)).toMatchObject({ allowed: false })
+  })
+
+  it("reports the longest wait among the refusing buckets", async () => {
+    const limiter = new RateLimiter(new MemoryStorage(), true)
+    const slow: BucketPolicy = { burst: 1, perMinute: 0.5 }
+    await limiter.takeAll([["fast", tight], ["slow", slow]])
+
+    expect(await limiter.takeAll([["fast", tight], ["slow", slow]])).toEqual({
+      allowed: false,
+      retryAfterSeconds: 120,
+      key: "slow",
+    })
+  })
+
+  it("allows everything when disabled", async () => {
+    const limiter = new RateLimiter(new MemoryStorage(), false)
+    await limiter.take("a", tight)
+    expect(await limiter.take("a", tight)).toEqual({ allowed: true })
+  })
+})
+
+describe("clientIp", () => {
+  const request = (headers: Record<string, string>) => new NextRequest("https://bot.example.com/api/parse-message", { headers })
+
+  it("ignores addresses the client put in X-Forwarded-For", () => {
+    expect(clientIp(request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" }), 1)).toBe("203.0.113.7")
+  })
+
+  it("skips the hops added by further trusted proxies", () => {
+    expect(clientIp(request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2" }), 2)).toBe("203.0.113.7")
+  })
+
+  it("falls back to X-Real-IP", () => {
+    expect(clientIp(request({ "x-real-ip": "203.0.113.7" }), 1)).toBe("203.0.113.7")
+    expect(clientIp(request({}), 1)).toBe("unknown")
+  })
+})
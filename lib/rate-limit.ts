@@ -0,0 +1,152 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getConfig } from "@/lib/config"
+import { getStorage, type StorageBackend } from "@/lib/storage"
+
+// ============================================
+// Types
+// ============================================
+
+export interface BucketPolicy {
+  // Requests allowed back to back before throttling starts
+  burst: number
+  // Sustained rate the bucket refills at
+  perMinute: number
+}
+
+interface BucketState {
+  tokens: number
+  updatedAt: number
+  // When the bucket is full again and the entry can be dropped
+  fullAt: number
+}
+
+// `key` is the bucket that refused the request
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterSeconds: number; key: string }
+
+// ============================================
+// Rate Limiter
+// ============================================
+
+// Token buckets kept in storage, so limits hold across workers that share a
+// file backend. Read-then-write is not atomic: concurrent requests for the
+// same key may occasionally both get the last token, which is fine here.
+const NAMESPACE = "rate-limits"
+
+export class RateLimiter {
+  constructor(
+    private readonly storage: StorageBackend,
+    private readonly enabled: boolean
+  ) {}
+
+  async take(key: string, policy: BucketPolicy): Promise<RateLimitResult> {
+    return this.takeAll([[key, policy]])
+  }
+
+  // All or nothing: a token is taken from every bucket only when each of
+  // them has one, so a request refused by one bucket costs the others nothing
+  async takeAll(buckets: Array<[string, BucketPolicy]>): Promise<RateLimitResult> {
+    if (!this.enabled) return { allowed: true }
+
+    const now = Date.now()
+    const levels: Array<{ key: string; policy: BucketPolicy; tokens: number }> = []
+    let refused: Extract<RateLimitResult, { allowed: false }> | null = null
+
+    for (const [key, policy] of buckets) {
+      const perMs = policy.perMinute / 60000
+      const existing = await this.storage.get<BucketState>(NAMESPACE, key)
+      const tokens = existing
+        ? Math.min(policy.burst, existing.tokens + (now - existing.updatedAt) * perMs)
+        : policy.burst
+
+      if (tokens < 1) {
+        const retryAfterSeconds = Math.max(1, Math.ceil((1 - tokens) / perMs / 1000))
+        if (!refused || retryAfterSeconds > refused.retryAfterSeconds) {
+          refused = { allowed: false, retryAfterSeconds, key }
+        }
+      }
+      levels.push({ key, policy, tokens })
+    }
+    if (refused) return refused
+
+    for (const { key, policy, tokens } of levels) {
+      const perMs = policy.perMinute / 60000
+      const remaining = tokens - 1
+      await this.storage.set<BucketState>(NAMESPACE, key, {
+        tokens: remaining,
+        updatedAt: now,
+        fullAt: now + Math.ceil((policy.burst - remaining) / perMs),
+      })
+    }
+    return { allowed: true }
+  }
+
+  // Full buckets carry no information, so they don't need to be kept
+  async cleanup(): Promise<void> {
+    const now = Date.now()
+    for (const [key, state] of await this.storage.entries<BucketState>(NAMESPACE)) {
+      if (state.fullAt <= now) await this.storage.delete(NAMESPACE, key)
+    }
+  }
+}
+
+// Kept on globalThis so the cleanup timer is started once per process
+const globalForRateLimit = globalThis as unknown as { __surikadoRateLimiter?: RateLimiter }
+
+export function getRateLimiter(): RateLimiter {
+  if (!globalForRateLimit.__surikadoRateLimiter) {
+    const config = getConfig()
+    const limiter = new RateLimiter(getStorage(), config.rateLimit.enabled)
+    globalForRateLimit.__surikadoRateLimiter = limiter
+
+    // Drop full buckets now and then so storage doesn't grow with every caller
+    const timer = setInterval(() => {
+      limiter.cleanup().catch((error) => {
+        console.error(`[RateLimit] Cleanup failed:`, error)
+      })
+    }, config.timing.CLEANUP_INTERVAL)
+    timer.unref?.()
+  }
+  return globalForRateLimit.__surikadoRateLimiter
+}
+
+// ============================================
+// Route Helpers
+// ============================================
+
+// Every proxy appends the address it was called from to X-Forwarded-For, and
+// clients can send the header with anything already in it. Only the last
+// `trustedProxies` entries were written by proxies in front of the app, so
+// the client is the address the outermost of them saw. Assumes the app can
+// only be reached through those proxies.
+export function clientIp(request: NextRequest, trustedProxies = getConfig().rateLimit.trustedProxies): string {
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  return hops[hops.length - trustedProxies] || request.headers.get("x-real-ip")?.trim() || "unknown"
+}
+
+// Takes a token from each bucket that applies (per client IP and/or per
+// phone, separately for every route), or from none of them. Returns a 429
+// response when one is empty, or null when the request may go ahead.
+export async function enforceRateLimit(
+  route: string,
+  keys: { ip?: string; phone?: string }
+): Promise<NextResponse | null> {
+  const { rateLimit } = getConfig()
+  const checks: Array<[string, BucketPolicy]> = []
+  if (keys.ip) checks.push([`${route}|ip:${keys.ip}`, rateLimit.ip])
+  if (keys.phone) checks.push([`${route}|phone:${keys.phone}`, rateLimit.phone])
+
+  const result = await getRateLimiter().takeAll(checks)
+  if (result.allowed) return null
+
+  console.warn(`[RateLimit] 🚦 ${result.key} throttled for ${result.retryAfterSeconds}s`)
+  return NextResponse.json(
+    {
+      error: `Too many requests. Please wait ${result.retryAfterSeconds} seconds and try again.`,
+      retryAfter: result.retryAfterSeconds,
+    },
+    { status: 429, headers: { "Retry-After": String(result.retryAfterSeconds) } }
+  )
+}
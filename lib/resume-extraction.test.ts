@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest"
+import { extractResumeWithEvidence } from "@/lib/resume-extraction"
+
+const salaries = (text: string) => {
+  const { resume } = extractResumeWithEvidence(text)
+  return { current: resume.currentMonthlySalary, expected: resume.expectedMonthlySalary }
+}
+
+describe("salary extraction", () => {
+  it("doesn't take the expected salary for the current one", () => {
+    expect(salaries("I earn 60.000 EUR annually. Expected salary: 70k EUR/year")).toEqual({
+      current: 5000,
+      expected: 5833,
+    })
+    expect(salaries("Desired salary: 4000 EUR")).toEqual({ current: null, expected: 4000 })
+  })
+
+  it("reads loose phrasing about current pay", () => {
+    expect(salaries("Right now I'm earning €3,200 a month").current).toBe(3200)
+    expect(salaries("I make 4k per month but want 5k").current).toBe(4000)
+  })
+
+  it("prefers a labelled salary over a loose one, wherever it appears", () => {
+    const { resume, evidence } = extractResumeWithEvidence("I make 3000 on weekends. Current salary: 4000 EUR")
+    expect(resume.currentMonthlySalary).toBe(4000)
+    expect(evidence.currentMonthlySalary.confidence).toBe(0.9)
+  })
+
+  it("reads Polish annual salaries", () => {
+    expect(salaries("Current salary: 60 000 zł rocznie").current).toBe(1150)
+  })
+})
+
+describe("location extraction", () => {
+  const location = (text: string) => {
+    const { resume, evidence, needsReview } = extractResumeWithEvidence(text)
+    return { ...resume.location, confidence: evidence["location.city"]?.confidence, needsReview }
+  }
+
+  it("doesn't read names and words as places", () => {
+    expect(location("My name is Sofia Novak")).toMatchObject({ city: null, country: null })
+    expect(location("I know java and rom hacking")).toMatchObject({ city: null, country: null })
+  })
+
+  it("takes the place named after location context", () => {
+    expect(location("Hi I'm Florence, a nurse. I live in Košice")).toMatchObject({
+      city: "Košice",
+      country: "Slovakia",
+      timezone: "Europe/Bratislava",
+    })
+  })
+
+  it("keeps a qualifier that isn't the city's country", () => {
+    expect(location("I live in Paris, Texas")).toMatchObject({ city: "Paris", country: null, timezone: null })
+    expect(location("Based in Paris, France")).toMatchObject({ city: "Paris", country: "France" })
+  })
+
+  it("flags places read from free text for review", () => {
+    const found = location("I'm from Košice")
+    expect(found.confidence).toBeLessThan(0.6)
+    expect(found.needsReview).toEqual(expect.arrayContaining(["location.city", "location.country"]))
+  })
+})
+
+describe("name extraction", () => {
+  const names = (text: string) => {
+    const { resume } = extractResumeWithEvidence(text)
+    return [resume.firstName, resume.lastName]
+  }
+
+  it("doesn't take words after \"I'm\" for names", () => {
+    expect(names("I'm looking for a job")).toEqual([null, null])
+    expect(names("I am a nurse")).toEqual([null, null])
+    expect(names("I'm Looking For work")).toEqual([null, null])
+  })
+
+  it("reads a capitalised name after \"I'm\"", () => {
+    expect(names("Hi, I'm Jane Doe")).toEqual(["Jane", "Doe"])
+  })
+
+  it("prefers the answer to the bot's question over a stated name", () => {
+    const text = "I'm Jane Doe\nWhat's your first name? 😊 {bot} 10:02 Janet"
+    const { resume, evidence } = extractResumeWithEvidence(text)
+    expect(resume.firstName).toBe("Janet")
+    expect(evidence.firstName.confidence).toBe(0.95)
+  })
+})
+
+describe("review threshold", () => {
+  const text = "Skills: python, docker"
+
+  it("flags keyword matches at the default threshold", () => {
+    const { evidence, needsReview } = extractResumeWithEvidence(text)
+    expect(evidence.hardSkills.confidence).toBeLessThan(0.6)
+    expect(needsReview).toContain("hardSkills")
+  })
+
+  it("doesn't flag a field whose confidence is exactly the threshold", () => {
+    const { confidence } = extractResumeWithEvidence(text).evidence.hardSkills
+    const { evidence, needsReview } = extractResumeWithEvidence(text, confidence)
+    expect(needsReview).not.toContain("hardSkills")
+    expect(evidence.hardSkills.needsReview).toBe(false)
+  })
+})
+
+describe("job descriptions", () => {
+  const jobs = (text: string) => extractResumeWithEvidence(text).resume.lastJobsExperience
+
+  it("doesn't run into the next job on the following line", () => {
+    const found = jobs("Last job: Acme, Developer, Jan 2020 - Present, FULL_TIME\nI worked at Foo as a nurse from 2015 to 2019")
+    expect(found.map((job) => [job.company, job.description])).toEqual([
+      ["Acme", null],
+      ["Foo", null],
+    ])
+  })
+
+  it("keeps whole sentences written before the next job", () => {
+    const found = jobs(
+      "Developer at Acme (2019 - 2021)\nBuilt the payments backend. Then I worked at Foo as a tester from 2015 to 2019"
+    )
+    expect(found.find((job) => job.company === "Acme")?.description).toBe("Built the payments backend.")
+  })
+})
+
+describe("skill keywords", () => {
+  const skills = (text: string) => extractResumeWithEvidence(text).resume.hardSkills
+
+  it("matches whole words only", () => {
+    expect(skills("I did digital marketing and like working with reactive people")).toBeNull()
+    expect(skills("Skills: React, Git and Node.js")).toBe("node.js, react, git")
+  })
+})
@@ -0,0 +1,741 @@
+import { getConfig } from "@/lib/config"
+import { countryByCode, findCity, findCityMention, findCountry, findCountryMention, type City, type Country } from "@/lib/gazetteer"
+import { termPattern } from "@/lib/message-classifier"
+import {
+  checkExperience,
+  isEmploymentType,
+  ResumeSchema,
+  type EmploymentType,
+  type JobExperience,
+  type Resume,
+  type Salary,
+} from "@/lib/resume"
+import { parseSalary, SALARY_PATTERN, toMonthlyEur } from "@/lib/salary"
+import {
+  currentYearMonth,
+  MONTH_NAME_PATTERN,
+  monthIndex,
+  monthsBetween,
+  parseYearMonth,
+  PRESENT_PATTERN,
+  toIsoYearMonth,
+} from "@/lib/year-month"
+
+// ============================================
+// Types
+// ============================================
+
+// Where in the input a value was found
+export interface TextSpan {
+  start: number
+  end: number
+  // The matched text itself
+  text: string
+  // The whole message (line) it appears in
+  message: string
+}
+
+export interface FieldEvidence {
+  // 0..1: how much the pattern that found the value can be trusted
+  confidence: number
+  // null for values derived from other fields
+  span: TextSpan | null
+  needsReview: boolean
+}
+
+export interface ResumeExtraction {
+  resume: Resume
+  // Keyed by field path, e.g. "email", "location.city", "lastJobsExperience.0".
+  // Fields that weren't found have no entry.
+  evidence: Record<string, FieldEvidence>
+  // Paths whose confidence is below the review threshold
+  needsReview: string[]
+}
+
+interface Found<T> {
+  value: T
+  confidence: number
+  span: TextSpan | null
+}
+
+interface Rule {
+  pattern: RegExp
+  confidence: number
+}
+
+// ============================================
+// Confidence Levels
+// ============================================
+
+// An answer to one of the bot's own questions, quoted from the transcript
+const BOT_QUESTION = 0.95
+// "Email: ...", "Current salary: ..." style labels
+const LABELLED = 0.9
+// Something the candidate said in passing: "my name is ..."
+const STATED = 0.7
+// A keyword found anywhere in the text; below the default review threshold
+const KEYWORD = 0.5
+// Loose fallbacks that take whatever follows a word; often wrong
+const GUESS = 0.3
+
+// ============================================
+// Resume Extraction
+// ============================================
+
+// Pattern-based extraction of candidate details from free text: a chat
+// transcript, a single message or the text of an uploaded CV. Used by
+// /api/parse-resume, /api/parse-message and /api/webhook alike.
+
+export function extractResume(text: string): Resume {
+  return extractResumeWithEvidence(text).resume
+}
+
+// Same extraction, with the confidence and source span of every field found
+export function extractResumeWithEvidence(text: string, reviewThreshold = 0.6): ResumeExtraction {
+  const firstName = extractFirstName(text)
+  const lastName = extractLastName(text)
+  const years = extractYearsOfExperience(text)
+  const occupation = extractCurrentOccupation(text)
+  const { city, country, countryCode, timezone } = extractLocation(text)
+  const currentSalary = extractCurrentSalary(text)
+  const expectedSalary = extractExpectedSalary(text)
+
+  const found: Record<string, Found<unknown> | null> = {
+    email: extractEmail(text),
+    firstName,
+    lastName,
+    phoneNumber: extractPhoneNumber(text),
+    hardSkills: extractHardSkills(text),
+    softSkills: extractSoftSkills(text),
+    shortCVSummary: extractSummary({ firstName, lastName, years, occupation, city, country }),
+    totalYearsOfExperience: years,
+    currentOccupation: occupation,
+    currentMonthlySalary: monthlySalary(currentSalary),
+    expectedMonthlySalary: monthlySalary(expectedSalary),
+    currentSalary,
+    expectedSalary,
+    "location.city": city,
+    "location.country": country,
+    "location.countryCode": countryCode,
+    "location.timezone": timezone,
+  }
+  const jobs = extractJobExperience(text)
+  jobs.forEach((job, index) => {
+    found[`lastJobsExperience.${index}`] = job
+  })
+
+  const value = <T>(path: string) => (found[path]?.value ?? null) as T | null
+  const experienceCheck = checkExperience(
+    years?.value ?? null,
+    jobs.map((job) => job.value)
+  )
+  const resume = ResumeSchema.parse({
+    email: value("email"),
+    firstName: value("firstName"),
+    lastName: value("lastName"),
+    phoneNumber: value("phoneNumber"),
+    hardSkills: value("hardSkills"),
+    softSkills: value("softSkills"),
+    lastJobsExperience: jobs.map((job) => job.value),
+    shortCVSummary: value("shortCVSummary"),
+    source: "BINARY",
+    status: "ACTIVE",
+    totalYearsOfExperience: value("totalYearsOfExperience"),
+    experienceCheck,
+    type: "CHAT_BOT",
+    currentOccupation: value("currentOccupation"),
+    currentMonthlySalary: value("currentMonthlySalary"),
+    expectedMonthlySalary: value("expectedMonthlySalary"),
+    currentSalary: value("currentSalary"),
+    expectedSalary: value("expectedSalary"),
+    location: {
+      city: value("location.city"),
+      country: value("location.country"),
+      countryCode: value("location.countryCode"),
+      timezone: value("location.timezone"),
+    },
+  })
+
+  const evidence: Record<string, FieldEvidence> = {}
+  for (const [path, item] of Object.entries(found)) {
+    if (!item) continue
+    evidence[path] = {
+      confidence: item.confidence,
+      span: item.span,
+      needsReview: item.confidence < reviewThreshold,
+    }
+  }
+  // A stated total the job history doesn't back up is worth a second look,
+  // however clearly it was stated
+  if (experienceCheck?.mismatch && evidence.totalYearsOfExperience) {
+    evidence.totalYearsOfExperience.needsReview = true
+  }
+
+  return {
+    resume,
+    evidence,
+    needsReview: Object.keys(evidence).filter((path) => evidence[path].needsReview),
+  }
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function spanAt(text: string, start: number, end: number): TextSpan {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1
+  const lineEnd = text.indexOf("\n", end)
+  return {
+    start,
+    end,
+    text: text.slice(start, end),
+    message: text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim(),
+  }
+}
+
+// The first rule that matches, trimmed: its first capture group, or the
+// whole match for patterns without one
+function firstMatch(text: string, rules: Rule[]): Found<string> | null {
+  for (const { pattern, confidence } of rules) {
+    const match = text.match(pattern)
+    if (!match || match.index === undefined) continue
+
+    const raw = match[1] ?? match[0]
+    const value = raw.trim()
+    if (!value) continue
+
+    const start = match.index + match[0].indexOf(raw) + raw.indexOf(value)
+    return { value, confidence, span: spanAt(text, start, start + value.length) }
+  }
+  return null
+}
+
+// The match of the most trustworthy rule, wherever in the text it is
+function bestMatch(text: string, rules: Rule[]): Found<string> | null {
+  return firstMatch(text, [...rules].sort((a, b) => b.confidence - a.confidence))
+}
+
+function firstNumber(text: string, rules: Rule[]): Found<number> | null {
+  const found = firstMatch(text, rules)
+  return found && { ...found, value: Number.parseInt(found.value) }
+}
+
+// Whole words only, as in the message classifier: "git" isn't found in
+// "digital", nor "react" in "reactive"
+function findKeywords(text: string, keywords: string[]): Found<string> | null {
+  const hits = keywords.flatMap((keyword) => {
+    const match = text.match(termPattern(keyword))
+    return match?.index === undefined ? [] : [{ keyword, index: match.index, length: match[0].length }]
+  })
+  if (hits.length === 0) return null
+
+  // Point at the earliest mention
+  const first = hits.reduce((earliest, hit) => (hit.index < earliest.index ? hit : earliest))
+  return {
+    value: hits.map((hit) => hit.keyword).join(", "),
+    confidence: KEYWORD,
+    span: spanAt(text, first.index, first.index + first.length),
+  }
+}
+
+// ============================================
+// Fields
+// ============================================
+
+function extractEmail(text: string): Found<string> | null {
+  return firstMatch(text, [{ pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/, confidence: LABELLED }])
+}
+
+function extractPhoneNumber(text: string): Found<string> | null {
+  return firstMatch(text, [
+    { pattern: /whatsapp:\+\d+/i, confidence: LABELLED },
+    { pattern: /phone:\s*(\+?\d+)/i, confidence: LABELLED },
+    { pattern: /\+\d{10,15}/, confidence: KEYWORD },
+  ])
+}
+
+// "I'm Jane" introduces a name, "I'm looking for a job" or "I'm Available
+// from May" doesn't: only a capitalised word that isn't one of these counts
+const NOT_NAMES = [
+  "A",
+  "An",
+  "The",
+  "Not",
+  "Also",
+  "Still",
+  "Currently",
+  "Looking",
+  "Interested",
+  "Available",
+  "Here",
+  "From",
+  "Based",
+  "Living",
+  "Working",
+]
+const NOT_A_NAME = String.raw`(?!(?:${NOT_NAMES.join("|")})\b)`
+const INTRODUCTION = String.raw`(?:\bI am|\bI'm)\s+${NOT_A_NAME}`
+const NAME = String.raw`([A-Z][a-z]+)`
+
+function extractFirstName(text: string): Found<string> | null {
+  return bestMatch(text, [
+    { pattern: /first name:\s*([A-Za-z]+)/i, confidence: LABELLED },
+    { pattern: /name:\s*([A-Za-z]+)/i, confidence: KEYWORD },
+    { pattern: /(?:my name is|call me)\s+([A-Za-z]+)/i, confidence: STATED },
+    { pattern: new RegExp(String.raw`${INTRODUCTION}${NAME}\b`), confidence: STATED },
+    { pattern: /What's your first name\?\s*😊[^}]*}\s*\d+:\d+\s*([A-Za-z]+)/i, confidence: BOT_QUESTION },
+  ])
+}
+
+function extractLastName(text: string): Found<string> | null {
+  return bestMatch(text, [
+    { pattern: /last name:\s*([A-Za-z]+)/i, confidence: LABELLED },
+    { pattern: /surname:\s*([A-Za-z]+)/i, confidence: LABELLED },
+    { pattern: /What's your last name\?\s*😊[^}]*}\s*\d+:\d+\s*([A-Za-z]+)/i, confidence: BOT_QUESTION },
+    { pattern: /my name is\s+[A-Za-z]+\s+([A-Za-z]+)/i, confidence: STATED },
+    { pattern: new RegExp(String.raw`${INTRODUCTION}[A-Z][a-z]+\s+${NOT_A_NAME}${NAME}\b`), confidence: STATED },
+  ])
+}
+
+function extractHardSkills(text: string): Found<string> | null {
+  const skillKeywords = [
+    "python",
+    "c#",
+    "javascript",
+    "typescript",
+    "django",
+    "node.js",
+    "react",
+    "postgresql",
+    "mysql",
+    "mongodb",
+    "docker",
+    "kubernetes",
+    "azure devops",
+    "git",
+    "restful api",
+    "ml.net",
+    "scikit-learn",
+    "tensorflow",
+    "azure",
+    "aws",
+    "sql",
+    "nosql",
+    "ci/cd",
+    "devops",
+    "machine learning",
+    "api development",
+    "cloud deployment",
+    "data processing",
+    "kendo ui",
+    "java",
+    "spring",
+    "angular",
+    "vue",
+    "php",
+    "laravel",
+    "ruby",
+    "rails",
+  ]
+
+  return findKeywords(text, skillKeywords)
+}
+
+function extractSoftSkills(text: string): Found<string> | null {
+  const softSkillKeywords = [
+    "problem-solving",
+    "analytical thinking",
+    "team collaboration",
+    "communication",
+    "leadership",
+    "teamwork",
+    "adaptability",
+    "time management",
+    "mentoring",
+    "cross-functional",
+    "creative",
+    "organized",
+    "detail-oriented",
+    "collaborative",
+  ]
+
+  return findKeywords(text, softSkillKeywords)
+}
+
+// ============================================
+// Work History
+// ============================================
+
+// "Jan 2020", "enero de 2020", "03/2021", "2021-03", "2019", "present", "heute"
+const DATE = String.raw`(?:(?<![A-Za-zÀ-ÿ])(?:${MONTH_NAME_PATTERN})\.?\s+(?:del?\s+)?\d{4}|\d{1,2}[/.-]\d{4}|\d{4}(?:[-/.]\d{1,2})?|(?<![A-Za-zÀ-ÿ])(?:${PRESENT_PATTERN})(?![A-Za-zÀ-ÿ]))`
+// "from 2019 to 2021", "Jan 2020 - Present", "between 2018 and 2019", "von 2019 bis 2021",
+// "desde 2018 hasta 2020", "since 2022"
+const RANGE_START = String.raw`(?:from|between|von|desde|de|du|dal|da|od)`
+const RANGE_SEPARATOR = String.raw`(?:\s*[-–—]\s*|\s+(?:to|until|till|and|bis|hasta|até|a|à|au|al|fino a|tot|do)\s+)`
+const DATES = String.raw`(?:${RANGE_START}\s+)?(?:(?<start>${DATE})${RANGE_SEPARATOR}(?<end>${DATE})|(?:since|seit|depuis|desde|dal|od)\s+(?<since>${DATE}))`
+// Chat transcripts prefix each message with its sender
+const SENDER = String.raw`(?:(?:user|system|api):\s*)?`
+
+// Most specific first: where two rules match the same words, the first wins
+const JOB_RULES: Rule[] = [
+  // "Last job: Acme, Developer, Jan 2020 - Present, FULL_TIME"
+  {
+    pattern: new RegExp(String.raw`last job:\s*(?<company>[^,\n]+),\s*(?<position>[^,\n]+),\s*${DATES}(?:,\s*(?<type>[A-Za-z_ -]+))?`, "gi"),
+    confidence: LABELLED,
+  },
+  // "My last project was with Acme where I worked as a Developer from 2020 to 2022. It was a CONTRACT role"
+  {
+    pattern: new RegExp(
+      String.raw`(?:project|job) was with\s+(?<company>[^,\n]+?)\s+where I worked as\s+(?:an?\s+)?(?<position>[^,\n]+?)\s+${DATES}\.?(?:\s*It was an?\s+(?<type>[A-Za-z_ -]+?)\s+role)?`,
+      "gi"
+    ),
+    confidence: STATED,
+  },
+  // "I worked at Acme as a nurse from 2019 to 2023", "working for Acme as Developer since 2022"
+  {
+    pattern: new RegExp(String.raw`(?:worked|working|work) (?:at|for)\s+(?<company>[^,\n]+?)\s+as\s+(?:an?\s+)?(?<position>[^,\n]+?)\s*,?\s+${DATES}`, "gi"),
+    confidence: STATED,
+  },
+  // CV heading: "Developer at Acme (Jan 2020 - Present)", "Nurse at Hospital X, 2019 - 2023"
+  {
+    pattern: new RegExp(String.raw`^\s*${SENDER}(?<position>[^,\n]{2,60}?)\s+at\s+(?<company>[^,\n(]{2,60}?)\s*[,(|]\s*${DATES}\)?`, "gim"),
+    confidence: KEYWORD,
+  },
+]
+
+const EMPLOYMENT_TYPE_WORDS: Array<[RegExp, EmploymentType]> = [
+  [/\bfull[\s_-]?time\b/i, "FULL_TIME"],
+  [/\bpart[\s_-]?time\b/i, "PART_TIME"],
+  [/\bfreelanc/i, "FREELANCE"],
+  [/\bcontract(?:or)?\b/i, "CONTRACT"],
+  [/\binternship\b|\bintern\b/i, "INTERNSHIP"],
+  [/\btemporary\b|\btemp\b/i, "TEMPORARY"],
+]
+
+function toEmploymentType(text: string | undefined): EmploymentType | null {
+  if (!text) return null
+  const upper = text.trim().toUpperCase()
+  if (isEmploymentType(upper)) return upper
+  return EMPLOYMENT_TYPE_WORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null
+}
+
+// Where the words about one job stop: the next job, a blank line, or the
+// next message in a transcript
+const BLOCK_END = /\n\s*\n|\n\s*(?:user|system|api|typing):/
+// The last line break or sentence end, and the words after it
+const TRAILING_FRAGMENT = /(?:\n|[.!?](?=\s))[^\n.!?]*$/
+
+// What the candidate said about the job right after naming it, verbatim.
+// When the next job follows, the sentence or line that names it isn't part
+// of this job's description.
+function describeJob(text: string, from: number, to: number): string | null {
+  let rest = text.slice(from, to)
+  const end = rest.search(BLOCK_END)
+  if (end !== -1) {
+    rest = rest.slice(0, end)
+  } else if (to < text.length) {
+    const fragment = rest.search(TRAILING_FRAGMENT)
+    rest = fragment === -1 ? "" : rest.slice(0, fragment + 1)
+  }
+  const description = rest
+    .replace(/^[\s.,;:–—)-]+/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+  return description ? description.slice(0, 500) : null
+}
+
+type JobDates = Pick<JobExperience, "startDate" | "endDate" | "current" | "startDateText" | "endDateText" | "tenureMonths">
+
+// ISO year-months and tenure from the dates as written. "since 2022" has no
+// end date and is current, like "2022 - present".
+function normalizeJobDates(startText: string | null, endText: string | null, since: boolean, now = new Date()): JobDates {
+  const start = parseYearMonth(startText)
+  const end = parseYearMonth(endText)
+  const current = since || end?.kind === "present"
+  const startDate = start?.kind === "date" ? start.date : null
+  const endDate = end?.kind === "date" ? end.date : null
+  const until = current ? currentYearMonth(now) : endDate
+
+  return {
+    startDate: startDate && toIsoYearMonth(startDate),
+    endDate: current ? null : endDate && toIsoYearMonth(endDate),
+    current,
+    startDateText: startText,
+    endDateText: endText,
+    tenureMonths: startDate && until ? monthsBetween(startDate, until) : null,
+  }
+}
+
+// Sort key in months; current jobs sort after everything else
+function dateSortKey(date: string | null, current = false): number {
+  if (current) return Number.MAX_SAFE_INTEGER
+  const parsed = parseYearMonth(date)
+  return parsed?.kind === "date" ? monthIndex(parsed.date) : -1
+}
+
+// Every job mentioned, newest first (by end date, then start date)
+function extractJobExperience(text: string): Found<JobExperience>[] {
+  const matches: Array<{ match: RegExpMatchArray; start: number; end: number; confidence: number }> = []
+
+  for (const { pattern, confidence } of JOB_RULES) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0
+      const end = start + match[0].length
+      // Already claimed by a more specific rule
+      if (matches.some((other) => start < other.end && end > other.start)) continue
+      matches.push({ match, start, end, confidence })
+    }
+  }
+  matches.sort((a, b) => a.start - b.start)
+
+  const jobs = matches.map(({ match, start, end, confidence }, index) => {
+    const groups = match.groups ?? {}
+    const description = describeJob(text, end, matches[index + 1]?.start ?? text.length)
+    const job: Found<JobExperience> = {
+      value: {
+        company: groups.company?.trim() || null,
+        position: groups.position?.trim() || null,
+        ...normalizeJobDates(
+          (groups.start ?? groups.since)?.trim() || null,
+          groups.end?.trim() || null,
+          Boolean(groups.since)
+        ),
+        employmentType: toEmploymentType(groups.type) ?? toEmploymentType(description ?? undefined),
+        description,
+      },
+      confidence,
+      span: spanAt(text, start, end),
+    }
+    return job
+  })
+
+  return jobs.sort(
+    (a, b) =>
+      dateSortKey(b.value.endDate, b.value.current) - dateSortKey(a.value.endDate, a.value.current) ||
+      dateSortKey(b.value.startDate) - dateSortKey(a.value.startDate)
+  )
+}
+
+// ============================================
+// Other Fields
+// ============================================
+
+function extractYearsOfExperience(text: string): Found<number> | null {
+  return firstNumber(text, [
+    { pattern: /experience:\s*(\d+)\s*years?/i, confidence: LABELLED },
+    { pattern: /(\d+)\s*years?\s*(?:of\s*)?experience/i, confidence: STATED },
+    { pattern: /How many years of work experience do you have\?\s*🗓️[^}]*}\s*\d+:\d+\s*(\d+)/i, confidence: BOT_QUESTION },
+    { pattern: /total.*?(\d+)\s*years?/i, confidence: GUESS },
+  ])
+}
+
+function extractCurrentOccupation(text: string): Found<string> | null {
+  return firstMatch(text, [
+    { pattern: /current occupation:\s*([^,\n]+)/i, confidence: LABELLED },
+    { pattern: /occupation:\s*([^,\n]+)/i, confidence: LABELLED },
+    { pattern: /What's your current occupation\?\s*💼[^}]*}\s*\d+:\d+\s*([^,\n]+)/i, confidence: BOT_QUESTION },
+    { pattern: /(?:i work as|i am a|my job is|currently working as)\s+([^,\n]+)/i, confidence: STATED },
+  ])
+}
+
+// The amount phrase itself: "€60,000 a year", "3000-3500", "4.5k"
+const SALARY = `(${SALARY_PATTERN})`
+
+// The most confident rule that matches, whatever order the rules are listed in
+function bestSalary(text: string, rules: Rule[]): Found<Salary> | null {
+  const found = bestMatch(text, rules)
+  const parsed = found && parseSalary(found.value)
+  if (!found || !parsed) return null
+  return { ...found, value: { ...parsed, monthlyEur: toMonthlyEur(parsed, getConfig().salary) } }
+}
+
+// Monthly EUR for the numeric resume field, the middle of a range
+function monthlySalary(salary: Found<Salary> | null): Found<number> | null {
+  const monthlyEur = salary?.value.monthlyEur
+  if (!salary || !monthlyEur) return null
+  return { ...salary, value: Math.round((monthlyEur.min + monthlyEur.max) / 2) }
+}
+
+// Loose phrasing such as "I earn ..." stops short of any expected or wanted salary
+const NOT_EXPECTED = String.raw`(?:(?!\b(?:expect|desired?\b|want))[^\n])*?`
+
+function extractCurrentSalary(text: string): Found<Salary> | null {
+  return bestSalary(text, [
+    { pattern: new RegExp(String.raw`current salary:\s*${SALARY}`, "i"), confidence: LABELLED },
+    {
+      pattern: new RegExp(String.raw`current monthly salary in EUR\?\s*💰[^}]*}\s*\d+:\d+\s*${SALARY}`, "i"),
+      confidence: BOT_QUESTION,
+    },
+    {
+      pattern: new RegExp(
+        String.raw`(?:\bearn(?:s|ing)?|\bmak(?:e|es|ing)|(?<!(?:expected|desired)\s)\bsalary)\b${NOT_EXPECTED}${SALARY}`,
+        "i"
+      ),
+      confidence: GUESS,
+    },
+  ])
+}
+
+function extractExpectedSalary(text: string): Found<Salary> | null {
+  return bestSalary(text, [
+    { pattern: new RegExp(String.raw`(?:expected|desired) salary:\s*${SALARY}`, "i"), confidence: LABELLED },
+    {
+      pattern: new RegExp(String.raw`expected monthly salary in EUR\?\s*📈[^}]*}\s*\d+:\d+\s*${SALARY}`, "i"),
+      confidence: BOT_QUESTION,
+    },
+    { pattern: new RegExp(String.raw`(?:want|expecting|expect).*?${SALARY}`, "i"), confidence: GUESS },
+  ])
+}
+
+// What the candidate answered, as written
+function statedCity(text: string): Found<string> | null {
+  return firstMatch(text, [
+    { pattern: /location:\s*([^,\n]+),/i, confidence: LABELLED },
+    { pattern: /city:\s*([^,\n]+)/i, confidence: LABELLED },
+    {
+      pattern: /where are you currently located\?\s*\$\$City, Country\$\$\s*📍[^}]*}\s*\d+:\d+\s*([^,\n]+)/i,
+      confidence: BOT_QUESTION,
+    },
+  ])
+}
+
+function statedCountry(text: string): Found<string> | null {
+  return firstMatch(text, [
+    { pattern: /location:\s*[^,\n]+,\s*([^\n]+)/i, confidence: LABELLED },
+    { pattern: /country:\s*([^,\n]+)/i, confidence: LABELLED },
+    {
+      pattern: /where are you currently located\?\s*\$\$City, Country\$\$\s*📍[^}]*}\s*\d+:\d+\s*[^,\n]+,\s*([^\n]+)/i,
+      confidence: BOT_QUESTION,
+    },
+  ])
+}
+
+// "I live in Košice", "based in Paris, Texas", "from Slovakia": names that
+// could be people or words ("Sofia", "Florence", "rom") only count as a
+// place right after words that introduce one
+const LOCATION_CONTEXT =
+  /\b(?:(?:live[sd]?|living|based|located|resid(?:e|es|ing)|settled)\s+in|(?:moved|relocated)\s+to|from|location:)\s*/gi
+
+// The place named right after a location phrase, read together with its
+// qualifier: a city whose qualifier isn't its own country ("Paris, Texas")
+// is kept as written instead of resolved. Guesses, so they get reviewed.
+function mentionedPlace(text: string): { city: Found<City | string> | null; country: Found<Country> | null } | null {
+  for (const context of text.matchAll(LOCATION_CONTEXT)) {
+    const offset = context.index! + context[0].length
+    const rest = text.slice(offset)
+    const at = (start: number, end: number) => spanAt(text, offset + start, offset + end)
+
+    const cityMention = findCityMention(rest)
+    if (cityMention?.start === 0) {
+      const qualifier = rest.slice(cityMention.end).match(/^\s*,\s*([^,.;:!?()\n]+)/)
+      const qualifierStart = qualifier ? cityMention.end + qualifier[0].indexOf(qualifier[1]) : 0
+      const countryMention = qualifier && findCountryMention(qualifier[1])
+      const qualifierCountry = countryMention?.start === 0 ? countryMention.place : null
+      const place = cityMention.place
+
+      const country: Found<Country> | null = qualifierCountry && {
+        value: qualifierCountry,
+        confidence: GUESS,
+        span: at(qualifierStart + countryMention!.start, qualifierStart + countryMention!.end),
+      }
+      const resolved = qualifier ? qualifierCountry?.code === place.countryCode : true
+      const written = rest.slice(0, cityMention.end)
+      return {
+        city: { value: resolved ? place : written, confidence: GUESS, span: at(0, cityMention.end) },
+        country,
+      }
+    }
+
+    const countryMention = findCountryMention(rest)
+    if (countryMention?.start === 0) {
+      return { city: null, country: { value: countryMention.place, confidence: GUESS, span: at(0, countryMention.end) } }
+    }
+  }
+  return null
+}
+
+// City and country resolved against the gazetteer, with the country's ISO
+// code and the timezone. Stated places the gazetteer doesn't know are kept
+// as written; otherwise a known place named after "live in", "from", ... is
+// used. A city in a different country than the one stated is not resolved,
+// so "Valencia, Venezuela" doesn't pick up Spain's timezone.
+function extractLocation(text: string): {
+  city: Found<string> | null
+  country: Found<string> | null
+  countryCode: Found<string> | null
+  timezone: Found<string> | null
+} {
+  const mentioned = mentionedPlace(text)
+  let country: Found<Country | string> | null = null
+  const stated = statedCountry(text)
+  if (stated) {
+    country = { ...stated, value: findCountry(stated.value) ?? stated.value }
+  } else if (mentioned?.country) {
+    country = mentioned.country
+  }
+  let countryPlace = typeof country?.value === "object" ? country.value : null
+  // A country we couldn't resolve can't vouch for the city either
+  const inCountry = (city: City) => !country || city.countryCode === countryPlace?.code
+
+  let city: Found<City | string> | null = null
+  const statedName = statedCity(text)
+  if (statedName) {
+    const place = findCity(statedName.value)
+    city = { ...statedName, value: place && inCountry(place) ? place : statedName.value }
+  } else if (mentioned?.city) {
+    const place = mentioned.city.value
+    if (typeof place === "string" || inCountry(place)) city = mentioned.city
+  }
+  const cityPlace = typeof city?.value === "object" ? city.value : null
+
+  // No country given, but a known city says which one
+  if (!country && city && cityPlace) {
+    countryPlace = countryByCode(cityPlace.countryCode)
+    country = countryPlace && { value: countryPlace, confidence: city.confidence, span: null }
+  }
+
+  const derived = (value: string | null | undefined, ...from: Array<Found<unknown> | null>): Found<string> | null => {
+    const sources = from.filter((fact): fact is Found<unknown> => fact !== null)
+    if (!value || sources.length === 0) return null
+    return { value, confidence: Math.min(...sources.map((fact) => fact.confidence)), span: null }
+  }
+  const place = cityPlace ?? countryPlace
+
+  return {
+    city: city && { ...city, value: cityPlace?.name ?? (city.value as string) },
+    country: country && { ...country, value: countryPlace?.name ?? (country.value as string) },
+    countryCode: derived(countryPlace?.code ?? cityPlace?.countryCode, country),
+    timezone: derived(place?.timezone, cityPlace ? city : country),
+  }
+}
+
+// Built only from facts found in the text; null when there are none. As
+// trustworthy as the weakest fact it uses.
+function extractSummary(facts: {
+  firstName: Found<string> | null
+  lastName: Found<string> | null
+  years: Found<number> | null
+  occupation: Found<string> | null
+  city: Found<string> | null
+  country: Found<string> | null
+}): Found<string> | null {
+  const { firstName, lastName, years, occupation, city, country } = facts
+  const name = [firstName?.value, lastName?.value].filter(Boolean).join(" ")
+  const location = [city?.value, country?.value].filter(Boolean).join(", ")
+
+  if (!name && !occupation && !years) {
+    return null
+  }
+
+  const parts = [
+    occupation ? `${name || "Candidate"}: ${occupation.value.toLowerCase()}` : name || "Candidate",
+    years ? `${years.value} years of experience` : null,
+    location ? `based in ${location}` : null,
+  ]
+  const confidences = Object.values(facts).flatMap((fact) => (fact ? [fact.confidence] : []))
+  return {
+    value: `${parts.filter(Boolean).join(", ")}.`,
+    confidence: Math.min(...confidences),
+    span: null,
+  }
+}
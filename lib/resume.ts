@@ -0,0 +1,181 @@
+import { z } from "zod"
+import { SALARY_PERIODS } from "@/lib/salary"
+import { currentYearMonth, monthIndex, parseYearMonth } from "@/lib/year-month"
+
+// ============================================
+// Schema
+// ============================================
+
+// Anything the candidate didn't tell us is null. Never fill in a guess.
+
+export const EMPLOYMENT_TYPES = ["FULL_TIME", "PART_TIME", "CONTRACT", "FREELANCE", "INTERNSHIP", "TEMPORARY"] as const
+
+// ISO 8601 "2023-01", or "2023" when only the year was given
+const isoYearMonth = z.string().regex(/^\d{4}(?:-(?:0[1-9]|1[0-2]))?$/)
+
+export const JobExperienceSchema = z.object({
+  company: z.string().nullable(),
+  position: z.string().nullable(),
+  startDate: isoYearMonth.nullable(),
+  // null while the job is current
+  endDate: isoYearMonth.nullable(),
+  current: z.boolean(),
+  // The dates as the candidate wrote them
+  startDateText: z.string().nullable(),
+  endDateText: z.string().nullable(),
+  // Up to today for current jobs; null without a usable start date
+  tenureMonths: z.number().int().nonnegative().nullable(),
+  employmentType: z.enum(EMPLOYMENT_TYPES).nullable(),
+  description: z.string().nullable(),
+})
+
+export const ExperienceCheckSchema = z.object({
+  statedYears: z.number(),
+  // Time covered by the job history, overlapping jobs counted once
+  historyYears: z.number(),
+  // The two differ by more than MISMATCH_YEARS and MISMATCH_RATIO
+  mismatch: z.boolean(),
+})
+
+export const SalarySchema = z.object({
+  // The amount as the candidate wrote it: "€60,000 a year", "3000-3500"
+  text: z.string(),
+  // ISO 4217, null when no currency was named
+  currency: z.string().nullable(),
+  // null when no period was named; taken as monthly
+  period: z.enum(SALARY_PERIODS).nullable(),
+  // Equal unless a range was given
+  min: z.number().nonnegative(),
+  max: z.number().nonnegative(),
+  // null when there's no EUR rate for the currency
+  monthlyEur: z.object({ min: z.number().nonnegative(), max: z.number().nonnegative() }).nullable(),
+})
+
+export const ResumeSchema = z.object({
+  email: z.string().nullable(),
+  firstName: z.string().nullable(),
+  lastName: z.string().nullable(),
+  phoneNumber: z.string().nullable(),
+  // Comma-separated, as n8n stores them
+  hardSkills: z.string().nullable(),
+  softSkills: z.string().nullable(),
+  lastJobsExperience: z.array(JobExperienceSchema),
+  shortCVSummary: z.string().nullable(),
+  totalYearsOfExperience: z.number().nonnegative().nullable(),
+  // null unless there is both a stated total and a dated job history
+  experienceCheck: ExperienceCheckSchema.nullable(),
+  currentOccupation: z.string().nullable(),
+  // Monthly EUR, the middle of a range
+  currentMonthlySalary: z.number().nonnegative().nullable(),
+  expectedMonthlySalary: z.number().nonnegative().nullable(),
+  // How the candidate put it, for the figures above
+  currentSalary: SalarySchema.nullable(),
+  expectedSalary: SalarySchema.nullable(),
+  location: z.object({
+    city: z.string().nullable(),
+    // English name when the gazetteer knows it, otherwise as written
+    country: z.string().nullable(),
+    // ISO 3166-1 alpha-2
+    countryCode: z.string().length(2).nullable(),
+    // IANA zone of the city, or of the country when it has only one
+    timezone: z.string().nullable(),
+  }),
+  // Record metadata for the candidate database, not candidate data
+  source: z.literal("BINARY"),
+  status: z.literal("ACTIVE"),
+  type: z.literal("CHAT_BOT"),
+})
+
+export type JobExperience = z.infer<typeof JobExperienceSchema>
+export type EmploymentType = JobExperience["employmentType"] & string
+export type Salary = z.infer<typeof SalarySchema>
+export type ExperienceCheck = z.infer<typeof ExperienceCheckSchema>
+export type Resume = z.infer<typeof ResumeSchema>
+
+// ============================================
+// Helpers
+// ============================================
+
+export function isEmploymentType(value: unknown): value is EmploymentType {
+  return typeof value === "string" && (EMPLOYMENT_TYPES as readonly string[]).includes(value)
+}
+
+// Newer extractions fill in what older ones didn't know, without erasing
+// what they did: a null field never overwrites a known value.
+export function mergeResumes(previous: Resume | null, next: Resume): Resume {
+  if (!previous) return next
+
+  const merged: Record<string, unknown> = { ...previous }
+  for (const [key, value] of Object.entries(next)) {
+    if (value !== null) merged[key] = value
+  }
+  // A city from before doesn't carry over into a different country
+  const movedCountry =
+    next.location.countryCode !== null && next.location.countryCode !== previous.location.countryCode
+  merged.location = movedCountry
+    ? next.location
+    : {
+        city: next.location.city ?? previous.location.city,
+        country: next.location.country ?? previous.location.country,
+        countryCode: next.location.countryCode ?? previous.location.countryCode,
+        timezone: next.location.timezone ?? previous.location.timezone,
+      }
+  merged.lastJobsExperience = next.lastJobsExperience.length > 0 ? next.lastJobsExperience : previous.lastJobsExperience
+  // The total and the history may now come from different messages
+  merged.experienceCheck = checkExperience(
+    merged.totalYearsOfExperience as number | null,
+    merged.lastJobsExperience as JobExperience[]
+  )
+
+  return ResumeSchema.parse(merged)
+}
+
+// ============================================
+// Experience Check
+// ============================================
+
+// "10 years" against a history covering 4 is worth a look; 5 against 4 isn't
+const MISMATCH_YEARS = 2
+const MISMATCH_RATIO = 0.25
+
+// Compares the stated total with the time the dated jobs cover. Overlapping
+// jobs are counted once, current jobs run until `now`.
+export function checkExperience(
+  statedYears: number | null,
+  jobs: JobExperience[],
+  now: Date = new Date()
+): ExperienceCheck | null {
+  if (statedYears === null) return null
+
+  const today = currentYearMonth(now)
+  const intervals: Array<[number, number]> = []
+  for (const job of jobs) {
+    const start = parseYearMonth(job.startDate)
+    const end = job.current ? { kind: "date" as const, date: today } : parseYearMonth(job.endDate)
+    if (start?.kind !== "date" || end?.kind !== "date") continue
+    intervals.push([monthIndex(start.date), monthIndex(end.date)])
+  }
+  if (intervals.length === 0) return null
+
+  // Merge overlapping intervals, then count the months they cover
+  intervals.sort((a, b) => a[0] - b[0])
+  let months = 0
+  let [from, to] = intervals[0]
+  for (const [start, end] of intervals.slice(1)) {
+    if (start <= to + 1) {
+      to = Math.max(to, end)
+    } else {
+      months += Math.max(0, to - from + 1)
+      ;[from, to] = [start, end]
+    }
+  }
+  months += Math.max(0, to - from + 1)
+
+  const historyYears = Math.round((months / 12) * 10) / 10
+  const difference = Math.abs(statedYears - historyYears)
+  return {
+    statedYears,
+    historyYears,
+    mismatch: difference > MISMATCH_YEARS && difference > MISMATCH_RATIO * Math.max(statedYears, historyYears),
+  }
+}
@@ -0,0 +1,210 @@
+import crypto from "crypto"
+import type { StorageBackend } from "@/lib/storage"
+import { backoffWithJitter } from "@/lib/webhook-client"
+
+// ============================================
+// Types
+// ============================================
+
+export interface QueuedJob<T> {
+  id: string
+  payload: T
+  attempts: number
+  createdAt: number
+  nextAttemptAt: number
+  lastAttemptAt?: number
+  lastError?: string
+}
+
+export interface DeadLetter<T> extends QueuedJob<T> {
+  deadAt: number
+}
+
+export type AttemptOutcome = { ok: true } | { ok: false; error: string; retryable: boolean }
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  // Jobs claimed by a worker are left alone by others until this passes
+  leaseMs: number
+}
+
+export type JobHandler<T> = (payload: T) => Promise<AttemptOutcome>
+
+// ============================================
+// Retry Queue
+// ============================================
+
+// Queue on top of the storage backend, and as durable as it: a file backend
+// survives restarts, the memory backend doesn't. Failed jobs are retried with
+// exponential backoff until `maxAttempts`, then moved to a dead-letter list
+// where operators can inspect and replay them. Non-retryable failures go to
+// the dead-letter list straight away.
+export class RetryQueue<T> {
+  private readonly queueNamespace: string
+  private readonly deadNamespace: string
+  private readonly leaseNamespace: string
+  private processing = false
+
+  constructor(
+    name: string,
+    private readonly storage: StorageBackend,
+    private readonly handler: JobHandler<T>,
+    private readonly policy: RetryPolicy
+  ) {
+    this.queueNamespace = `${name}-queue`
+    this.deadNamespace = `${name}-dead-letters`
+    this.leaseNamespace = `${name}-leases`
+  }
+
+  // Records a job whose first attempt already failed
+  async enqueueFailed(payload: T, outcome: Extract<AttemptOutcome, { ok: false }>): Promise<QueuedJob<T>> {
+    const now = Date.now()
+    const job: QueuedJob<T> = {
+      id: crypto.randomUUID(),
+      payload,
+      attempts: 1,
+      createdAt: now,
+      nextAttemptAt: now,
+      lastAttemptAt: now,
+      lastError: outcome.error,
+    }
+    await this.fail(job, outcome)
+    return job
+  }
+
+  // Runs every job that is due. Overlapping calls in one process are skipped.
+  async processDue(): Promise<number> {
+    if (this.processing) return 0
+    this.processing = true
+
+    let processed = 0
+    try {
+      const now = Date.now()
+      for (const [, job] of await this.storage.entries<QueuedJob<T>>(this.queueNamespace)) {
+        if (job.nextAttemptAt > now) continue
+        if (await this.run(job)) processed++
+      }
+    } finally {
+      this.processing = false
+    }
+    return processed
+  }
+
+  // Moves a dead letter back onto the queue and attempts it immediately.
+  // Returns null for an unknown id.
+  async replay(id: string): Promise<{ outcome: AttemptOutcome; state: "done" | "retrying" | "dead" } | null> {
+    const dead = await this.storage.get<DeadLetter<T>>(this.deadNamespace, id)
+    if (!dead) return null
+
+    const { deadAt: _deadAt, ...rest } = dead
+    const job: QueuedJob<T> = { ...rest, attempts: 0, nextAttemptAt: Date.now() }
+    await this.storage.set(this.queueNamespace, id, job)
+    await this.storage.delete(this.deadNamespace, id)
+    console.log(`[Queue] 🔁 Replaying dead letter ${id}`)
+
+    const outcome = await this.attempt(job)
+    if (outcome.ok) return { outcome, state: "done" }
+    const requeued = await this.storage.get<QueuedJob<T>>(this.queueNamespace, id)
+    return { outcome, state: requeued ? "retrying" : "dead" }
+  }
+
+  async discard(id: string): Promise<boolean> {
+    const dead = await this.storage.get<DeadLetter<T>>(this.deadNamespace, id)
+    if (!dead) return false
+    await this.storage.delete(this.deadNamespace, id)
+    return true
+  }
+
+  async listPending(): Promise<QueuedJob<T>[]> {
+    const entries = await this.storage.entries<QueuedJob<T>>(this.queueNamespace)
+    return entries.map(([, job]) => job).sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)
+  }
+
+  // Newest first
+  async listDeadLetters(): Promise<DeadLetter<T>[]> {
+    const entries = await this.storage.entries<DeadLetter<T>>(this.deadNamespace)
+    return entries.map(([, job]) => job).sort((a, b) => b.deadAt - a.deadAt)
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetter<T> | undefined> {
+    return this.storage.get<DeadLetter<T>>(this.deadNamespace, id)
+  }
+
+  // ============================================
+  // Internals
+  // ============================================
+
+  // Claims the job so other workers sharing the storage skip it
+  private async claim(id: string): Promise<boolean> {
+    const until = Date.now() + this.policy.leaseMs
+    if (await this.storage.setIfAbsent(this.leaseNamespace, id, until)) return true
+
+    const existing = await this.storage.get<number>(this.leaseNamespace, id)
+    if (existing !== undefined && existing > Date.now()) return false
+
+    // Stale lease from a worker that died mid-attempt
+    await this.storage.delete(this.leaseNamespace, id)
+    return this.storage.setIfAbsent(this.leaseNamespace, id, until)
+  }
+
+  private async run(job: QueuedJob<T>): Promise<boolean> {
+    if (!(await this.claim(job.id))) return false
+    try {
+      // Another worker may have finished it between listing and claiming
+      const current = await this.storage.get<QueuedJob<T>>(this.queueNamespace, job.id)
+      if (!current || current.nextAttemptAt > Date.now()) return false
+      await this.execute(current)
+      return true
+    } finally {
+      await this.storage.delete(this.leaseNamespace, job.id)
+    }
+  }
+
+  private async attempt(job: QueuedJob<T>): Promise<AttemptOutcome> {
+    if (!(await this.claim(job.id))) {
+      return { ok: false, error: "Job is being processed by another worker", retryable: true }
+    }
+    try {
+      return await this.execute(job)
+    } finally {
+      await this.storage.delete(this.leaseNamespace, job.id)
+    }
+  }
+
+  private async execute(job: QueuedJob<T>): Promise<AttemptOutcome> {
+    let outcome: AttemptOutcome
+    try {
+      outcome = await this.handler(job.payload)
+    } catch (error) {
+      outcome = { ok: false, error: error instanceof Error ? error.message : String(error), retryable: true }
+    }
+
+    const attempted: QueuedJob<T> = { ...job, attempts: job.attempts + 1, lastAttemptAt: Date.now() }
+    if (outcome.ok) {
+      await this.storage.delete(this.queueNamespace, job.id)
+      console.log(`[Queue] ✅ Job ${job.id} succeeded after ${attempted.attempts} attempt(s)`)
+    } else {
+      await this.fail({ ...attempted, lastError: outcome.error }, outcome)
+    }
+    return outcome
+  }
+
+  private async fail(job: QueuedJob<T>, outcome: Extract<AttemptOutcome, { ok: false }>): Promise<void> {
+    if (!outcome.retryable || job.attempts >= this.policy.maxAttempts) {
+      const dead: DeadLetter<T> = { ...job, deadAt: Date.now() }
+      await this.storage.set(this.deadNamespace, job.id, dead)
+      await this.storage.delete(this.queueNamespace, job.id)
+      console.error(`[Queue] ☠️ Job ${job.id} dead-lettered after ${job.attempts} attempt(s): ${outcome.error}`)
+      return
+    }
+
+    const delay = Math.max(
+      this.policy.baseDelayMs,
+      backoffWithJitter(job.attempts, this.policy.baseDelayMs, this.policy.maxDelayMs)
+    )
+    await this.storage.set(this.queueNamespace, job.id, { ...job, nextAttemptAt: Date.now() + delay })
+    console.warn(`[Queue] Job ${job.id} failed (attempt ${job.attempts}), retrying in ${Math.round(delay / 1000)}s: ${outcome.error}`)
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest"
+import { parseSalary, SALARY_PATTERN, toMonthlyEur, type SalaryConversion } from "@/lib/salary"
+
+const conversion: SalaryConversion = {
+  defaultCurrency: "EUR",
+  eurRates: { EUR: 1, PLN: 0.23, HUF: 0.0025, GBP: 1.17 },
+  hoursPerMonth: 173,
+}
+
+// The salary phrase the extractor would capture from a sentence
+const phrase = (text: string) => text.match(new RegExp(SALARY_PATTERN, "i"))?.[0]
+
+describe("parseSalary", () => {
+  it.each([
+    ["60,000", 60000],
+    ["60.000", 60000],
+    ["60 000", 60000],
+    ["4.5k", 4500],
+    ["3,5k", 3500],
+    ["2.500,50", 2500.5],
+    ["1.2m", 1200000],
+  ])("reads the amount %s", (text, amount) => {
+    expect(parseSalary(text)).toMatchObject({ min: amount, max: amount })
+  })
+
+  it("reads ranges, carrying a suffix back to the lower bound", () => {
+    expect(parseSalary("3-3.5k")).toMatchObject({ min: 3000, max: 3500 })
+    expect(parseSalary("€3000 - €3500")).toMatchObject({ currency: "EUR", min: 3000, max: 3500 })
+  })
+
+  it.each([
+    ["€60,000", "EUR"],
+    ["60000 euros", "EUR"],
+    ["£4k", "GBP"],
+    ["4000 USD", "USD"],
+    ["60 000 zł", "PLN"],
+    ["800000 Ft", "HUF"],
+    ["5000 fr.", "CHF"],
+  ])("reads the currency of %s", (text, currency) => {
+    expect(parseSalary(text)?.currency).toBe(currency)
+  })
+
+  it("doesn't find a currency inside another word", () => {
+    expect(parseSalary("20 per shift")).toMatchObject({ currency: null, min: 20 })
+    expect(parseSalary("4000 per month, left the theft team")?.currency).toBeNull()
+    expect(parseSalary("3000 Euroland")?.currency).toBeNull()
+  })
+
+  it.each([
+    ["€25 per hour", "HOUR"],
+    ["£4k a month", "MONTH"],
+    ["€60,000 p.a.", "YEAR"],
+    ["60 000 zł rocznie", "YEAR"],
+    ["60 000 zł na rok", "YEAR"],
+    ["5 000 zł miesięcznie", "MONTH"],
+    ["5 000 zł na miesiąc", "MONTH"],
+    ["40 zł na godzinę", "HOUR"],
+    ["3000", null],
+  ])("reads the period of %s", (text, period) => {
+    expect(parseSalary(text)?.period).toBe(period)
+  })
+
+  it("returns null without an amount", () => {
+    expect(parseSalary("negotiable")).toBeNull()
+  })
+})
+
+describe("SALARY_PATTERN", () => {
+  it("takes in a trailing currency and period", () => {
+    expect(phrase("I make 60 000 zł rocznie now")).toBe("60 000 zł rocznie")
+    expect(phrase("around €4.5k per month, more or less")).toBe("€4.5k per month")
+  })
+
+  it("doesn't read the start of a word as a currency", () => {
+    expect(phrase("20 ftw")).toBe("20")
+  })
+})
+
+describe("toMonthlyEur", () => {
+  const monthly = (text: string) => toMonthlyEur(parseSalary(text)!, conversion)
+
+  it("converts annual, hourly and foreign salaries", () => {
+    expect(monthly("60.000 EUR annually")).toEqual({ min: 5000, max: 5000 })
+    expect(monthly("€20 per hour")).toEqual({ min: 3460, max: 3460 })
+    expect(monthly("60 000 zł rocznie")).toEqual({ min: 1150, max: 1150 })
+  })
+
+  it("treats a missing currency as the default and a missing period as monthly", () => {
+    expect(monthly("3000-3500")).toEqual({ min: 3000, max: 3500 })
+  })
+
+  it("gives no figure for a currency without a rate", () => {
+    expect(monthly("4000 USD")).toBeNull()
+  })
+})
@@ -0,0 +1,174 @@
+// ============================================
+// Types
+// ============================================
+
+export const SALARY_PERIODS = ["HOUR", "MONTH", "YEAR"] as const
+
+export type SalaryPeriod = (typeof SALARY_PERIODS)[number]
+
+// A salary as the candidate stated it: "€60,000 a year", "3000-3500", "4.5k"
+export interface ParsedSalary {
+  // The amount exactly as written
+  text: string
+  // ISO 4217 code, null when no currency was named
+  currency: string | null
+  // null when no period was named
+  period: SalaryPeriod | null
+  // Equal unless a range was given
+  min: number
+  max: number
+}
+
+export interface SalaryConversion {
+  // Assumed when the candidate names no currency
+  defaultCurrency: string
+  // EUR for one unit of each currency
+  eurRates: Record<string, number>
+  // Converts hourly rates to monthly ones
+  hoursPerMonth: number
+}
+
+// ============================================
+// Vocabulary
+// ============================================
+
+// Symbols and words that stand for a currency. "$" is taken as US dollars.
+const CURRENCY_WORDS: Array<[string, string]> = [
+  ["€", "EUR"],
+  ["euros", "EUR"],
+  ["euro", "EUR"],
+  ["£", "GBP"],
+  ["pounds", "GBP"],
+  ["$", "USD"],
+  ["dollars", "USD"],
+  ["₹", "INR"],
+  ["rupees", "INR"],
+  ["kč", "CZK"],
+  ["zł", "PLN"],
+  ["ft", "HUF"],
+  ["lei", "RON"],
+  ["fr.", "CHF"],
+]
+
+const CURRENCY_CODES = ["EUR", "USD", "GBP", "CHF", "CZK", "PLN", "HUF", "RON", "SEK", "NOK", "DKK", "CAD", "AUD", "INR", "PKR"]
+
+const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Letters, including the accented ones of the languages above. A currency
+// word only counts when it isn't part of a longer word: "ft" in "shift".
+const LETTER = "a-zà-žß"
+const standalone = (word: string) => `(?<![${LETTER}])${escape(word)}(?![${LETTER}])`
+
+const CURRENCY = `(?:${[...CURRENCY_CODES, ...CURRENCY_WORDS.map(([word]) => word)]
+  .sort((a, b) => b.length - a.length)
+  .map(standalone)
+  .join("|")})`
+
+// "60,000", "60.000", "1 200", "4.5k", "3,5k", "1.2m"
+const AMOUNT = String.raw`\d+(?:[.,' ]\d{3})*(?:[.,]\d+)?(?:\s?[km](?![a-z]))?`
+
+const PERIOD_WORDS: Array<[RegExp, SalaryPeriod]> = [
+  [
+    /(?:\b(?:per|an?|each)\s+|\/\s*)(?:hour|hr|h)\b|\bhourly\b|\bpor hora\b|\bpro stunde\b|\bde l'heure\b|\b[nz]a godzinę|\bgodzinowo\b/i,
+    "HOUR",
+  ],
+  [
+    /(?:\b(?:per|a|each)\s+|\/\s*)(?:month|mo|mth|m)\b|\bmonthly\b|\b(?:al|por) mes\b|\bpor mês|\bpro monat\b|\bmonatlich\b|\bpar mois\b|\bmensuel(?:le)?\b|\bal mese\b|\bmensil[ei]\b|\bmiesięcznie\b|\b[nz]a miesiąc/i,
+    "MONTH",
+  ],
+  [
+    /(?:\b(?:per|a|each)\s+|\/\s*)(?:year|yr|annum|y)\b|\b(?:annual(?:ly)?|yearly|p\.?\s?a\.?)(?![a-z])|\b(?:al|por) año|\bpor ano\b|\bpro jahr\b|\bjährlich|\bpar an\b|\bannuel(?:le)?\b|\ball'anno\b|\brocznie\b|\b[nz]a rok\b/i,
+    "YEAR",
+  ],
+]
+
+const LETTERS = `[${LETTER}']+`
+const PERIOD = String.raw`(?:\s*\/\s*${LETTERS}|\s+(?:(?:per|an?|each|al|por|pro|par|na|za)\s+|de l'|all')${LETTERS}|\s+(?:hourly|monthly|annually|annual|yearly|p\.?\s?a\.?|monatlich|jährlich|mensuel(?:le)?|annuel(?:le)?|mensil[ei]|miesięcznie|rocznie|godzinowo)(?![${LETTER}]))`
+const RANGE_SEPARATOR = String.raw`(?:\s*[-–—]\s*|\s+(?:to|a|bis|hasta|à)\s+)`
+
+// Regex source for a salary phrase: currency, amount or range, period
+export const SALARY_PATTERN =
+  `(?:${CURRENCY}\\s?)?${AMOUNT}(?:\\s?${CURRENCY})?` +
+  `(?:${RANGE_SEPARATOR}(?:${CURRENCY}\\s?)?${AMOUNT}(?:\\s?${CURRENCY})?)?` +
+  `(?:${PERIOD})?`
+
+// ============================================
+// Parsing
+// ============================================
+
+// "60,000" and "60.000" are sixty thousand, "4.5" and "4,5" four and a half.
+// With both separators the last one is the decimal point ("2.500,50").
+function parseAmount(raw: string, suffix: string): number {
+  const digits = raw.replace(/[' ]/g, "")
+  const separators = digits.match(/[.,]/g) ?? []
+  let normalized: string
+
+  if (separators.length === 0) {
+    normalized = digits
+  } else if (new Set(separators).size === 2) {
+    const decimal = digits.lastIndexOf(".") > digits.lastIndexOf(",") ? "." : ","
+    normalized = digits.split(decimal === "." ? "," : ".").join("").replace(",", ".")
+  } else if (separators.length > 1) {
+    normalized = digits.replace(/[.,]/g, "")
+  } else {
+    // One separator: a thousands one when three digits follow and there's no k/m
+    const [whole, fraction] = digits.split(/[.,]/)
+    normalized = fraction.length === 3 && !suffix ? whole + fraction : `${whole}.${fraction}`
+  }
+
+  const multiplier = suffix === "k" ? 1000 : suffix === "m" ? 1_000_000 : 1
+  return Math.round(Number(normalized) * multiplier * 100) / 100
+}
+
+const CURRENCY_MATCHERS: Array<[RegExp, string]> = [
+  ...CURRENCY_CODES.map((code): [RegExp, string] => [new RegExp(`\\b${code}\\b`, "i"), code]),
+  ...CURRENCY_WORDS.map(([word, code]): [RegExp, string] => [new RegExp(standalone(word), "i"), code]),
+]
+
+function parseCurrency(text: string): string | null {
+  return CURRENCY_MATCHERS.find(([pattern]) => pattern.test(text))?.[1] ?? null
+}
+
+// Reads the salary in a phrase such as SALARY_PATTERN matches. Returns null
+// when there's no amount in it.
+export function parseSalary(text: string): ParsedSalary | null {
+  const amounts = [...text.matchAll(/(\d+(?:[.,' ]\d{3})*(?:[.,]\d+)?)(?:\s?([km])(?![a-z]))?/gi)]
+  if (amounts.length === 0) return null
+
+  // "3-3.5k": a suffix on the upper bound applies to the lower one too
+  const suffixes = amounts.slice(0, 2).map((match) => match[2]?.toLowerCase() ?? "")
+  if (suffixes.length === 2 && !suffixes[0]) suffixes[0] = suffixes[1]
+  const values = amounts.slice(0, 2).map((match, index) => parseAmount(match[1], suffixes[index]))
+
+  return {
+    text: text.trim(),
+    currency: parseCurrency(text),
+    period: PERIOD_WORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null,
+    min: Math.min(...values),
+    max: Math.max(...values),
+  }
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+const MONTHS_PER_PERIOD: Record<SalaryPeriod, (hoursPerMonth: number) => number> = {
+  HOUR: (hoursPerMonth) => hoursPerMonth,
+  MONTH: () => 1,
+  YEAR: () => 1 / 12,
+}
+
+// Monthly EUR, rounded to whole euros. Salaries without a period are taken
+// as monthly, which is what the bot asks for. Null for currencies without
+// a rate.
+export function toMonthlyEur(
+  salary: ParsedSalary,
+  conversion: SalaryConversion
+): { min: number; max: number } | null {
+  const rate = conversion.eurRates[salary.currency ?? conversion.defaultCurrency]
+  if (rate === undefined) return null
+
+  const factor = rate * MONTHS_PER_PERIOD[salary.period ?? "MONTH"](conversion.hoursPerMonth)
+  return { min: Math.round(salary.min * factor), max: Math.round(salary.max * factor) }
+}
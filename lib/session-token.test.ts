@@ -0,0 +1,84 @@
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+const SECRET = "session-secret-0123456789"
+const OPERATOR_TOKEN = "operator-token-0123456789"
+const ALICE = "whatsapp:+421900000001"
+const BOB = "whatsapp:+421900000002"
+
+// getConfig() caches, so every test loads the module afresh with its own env
+async function loadSessionTokens(env: Record<string, string>) {
+  vi.resetModules()
+  for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value)
+  return import("@/lib/session-token")
+}
+
+const request = (headers: Record<string, string> = {}) =>
+  new NextRequest(`https://bot.example.com/api/messages?phone=${encodeURIComponent(ALICE)}`, { headers })
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe("verifySessionRequest", () => {
+  it("accepts the candidate's own token", async () => {
+    const { sessionTokenFor, verifySessionRequest } = await loadSessionTokens({ SESSION_SECRET: SECRET })
+    const token = sessionTokenFor(ALICE)!
+    expect(verifySessionRequest(request({ "x-session-token": token }), ALICE)).toEqual({ ok: true })
+  })
+
+  it("rejects another candidate's token", async () => {
+    const { sessionTokenFor, verifySessionRequest } = await loadSessionTokens({ SESSION_SECRET: SECRET })
+    const token = sessionTokenFor(BOB)!
+    expect(verifySessionRequest(request({ "x-session-token": token }), ALICE)).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it("rejects a token signed with another secret", async () => {
+    const other = await loadSessionTokens({ SESSION_SECRET: "another-secret-0123456789" })
+    const token = other.sessionTokenFor(ALICE)!
+    const { verifySessionRequest } = await loadSessionTokens({ SESSION_SECRET: SECRET })
+    expect(verifySessionRequest(request({ "x-session-token": token }), ALICE)).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it("requires operator access without a token", async () => {
+    const { verifySessionRequest } = await loadSessionTokens({ SESSION_SECRET: SECRET, OPERATOR_TOKEN })
+    expect(verifySessionRequest(request(), ALICE)).toMatchObject({ ok: false, status: 401 })
+    expect(verifySessionRequest(request({ authorization: `Bearer ${OPERATOR_TOKEN}` }), ALICE)).toEqual({ ok: true })
+  })
+
+  it("refuses tokens when no secret is configured", async () => {
+    const { sessionTokenFor, verifySessionRequest } = await loadSessionTokens({})
+    expect(sessionTokenFor(ALICE)).toBeNull()
+    expect(verifySessionRequest(request({ "x-session-token": "guess" }), ALICE)).toMatchObject({ ok: false, status: 503 })
+  })
+})
+
+describe("GET /api/message-status", () => {
+  const statusRequest = (headers: Record<string, string> = {}) =>
+    new NextRequest(`https://bot.example.com/api/message-status?toPhone=${encodeURIComponent(ALICE)}`, { headers })
+
+  async function loadRoute() {
+    const { sessionTokenFor } = await loadSessionTokens({ SESSION_SECRET: SECRET, OPERATOR_TOKEN })
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    const { GET } = await import("@/app/api/message-status/route")
+    return { GET, sessionTokenFor }
+  }
+
+  it("lists deliveries for the candidate's own session token", async () => {
+    const { GET, sessionTokenFor } = await loadRoute()
+    const response = await GET(statusRequest({ "x-session-token": sessionTokenFor(ALICE)! }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ deliveries: [] })
+  })
+
+  it("refuses another candidate's token and no token at all", async () => {
+    const { GET, sessionTokenFor } = await loadRoute()
+    expect((await GET(statusRequest({ "x-session-token": sessionTokenFor(BOB)! }))).status).toBe(401)
+    expect((await GET(statusRequest())).status).toBe(401)
+  })
+})
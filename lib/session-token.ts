@@ -0,0 +1,32 @@
+import crypto from "crypto"
+import type { NextRequest } from "next/server"
+import { getConfig } from "@/lib/config"
+import { verifyOperatorRequest } from "@/lib/operator-auth"
+import type { VerificationResult } from "@/lib/twilio-signature"
+
+// A candidate's stored messages and resume are keyed by their phone, which
+// isn't a secret. Reading or clearing them takes the token for that phone,
+// an HMAC under SESSION_SECRET. It only leaves the server on the inbound
+// event sent to n8n, which has seen the candidate write from that number.
+export function sessionTokenFor(phone: string): string | null {
+  const { secret } = getConfig().session
+  if (!secret) return null
+  return crypto.createHmac("sha256", secret).update(phone).digest("base64url")
+}
+
+// `X-Session-Token: <token for phone>`, or operator access as a fallback
+export function verifySessionRequest(request: NextRequest, phone: string): VerificationResult {
+  const provided = request.headers.get("x-session-token")
+  if (!provided) return verifyOperatorRequest(request)
+
+  const expected = sessionTokenFor(phone)
+  if (!expected) {
+    return { ok: false, status: 503, error: "Session tokens are not configured" }
+  }
+
+  const actual = Buffer.from(provided)
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, Buffer.from(expected))) {
+    return { ok: false, status: 401, error: "Invalid session token" }
+  }
+  return { ok: true }
+}
@@ -0,0 +1,185 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { getConfig } from "@/lib/config"
+
+// ============================================
+// Storage Backend Interface
+// ============================================
+
+// Namespaced key/value storage. Every method is async so that
+// implementations backed by disk or a database can be swapped in
+// without touching the callers.
+export interface StorageBackend {
+  get<T>(namespace: string, key: string): Promise<T | undefined>
+  set<T>(namespace: string, key: string, value: T): Promise<void>
+  // Atomically stores the value only if the key is missing; true if stored
+  setIfAbsent<T>(namespace: string, key: string, value: T): Promise<boolean>
+  delete(namespace: string, key: string): Promise<void>
+  entries<T>(namespace: string): Promise<Array<[string, T]>>
+}
+
+// ============================================
+// In-Memory Backend
+// ============================================
+
+export class MemoryStorage implements StorageBackend {
+  private namespaces = new Map<string, Map<string, unknown>>()
+
+  private bucket(namespace: string): Map<string, unknown> {
+    let bucket = this.namespaces.get(namespace)
+    if (!bucket) {
+      bucket = new Map()
+      this.namespaces.set(namespace, bucket)
+    }
+    return bucket
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    return this.bucket(namespace).get(key) as T | undefined
+  }
+
+  async set<T>(namespace: string, key: string, value: T): Promise<void> {
+    this.bucket(namespace).set(key, value)
+  }
+
+  async setIfAbsent<T>(namespace: string, key: string, value: T): Promise<boolean> {
+    const bucket = this.bucket(namespace)
+    if (bucket.has(key)) return false
+    bucket.set(key, value)
+    return true
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.bucket(namespace).delete(key)
+  }
+
+  async entries<T>(namespace: string): Promise<Array<[string, T]>> {
+    return [...this.bucket(namespace).entries()] as Array<[string, T]>
+  }
+}
+
+// ============================================
+// File Backend
+// ============================================
+
+// Stores each namespace as a JSON file in `dir`. Nothing is cached in
+// memory, so every worker pointing at the same directory sees the same
+// state, and the data survives restarts and redeploys.
+export class FileStorage implements StorageBackend {
+  private static readonly LOCK_RETRY_MS = 10
+  private static readonly LOCK_STALE_MS = 5000
+
+  constructor(private readonly dir: string) {}
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const data = await this.read(namespace)
+    return data[key] as T | undefined
+  }
+
+  async set<T>(namespace: string, key: string, value: T): Promise<void> {
+    await this.withLock(namespace, async () => {
+      const data = await this.read(namespace)
+      data[key] = value
+      await this.write(namespace, data)
+    })
+  }
+
+  async setIfAbsent<T>(namespace: string, key: string, value: T): Promise<boolean> {
+    let stored = false
+    await this.withLock(namespace, async () => {
+      const data = await this.read(namespace)
+      if (key in data) return
+      data[key] = value
+      await this.write(namespace, data)
+      stored = true
+    })
+    return stored
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await this.withLock(namespace, async () => {
+      const data = await this.read(namespace)
+      if (!(key in data)) return
+      delete data[key]
+      await this.write(namespace, data)
+    })
+  }
+
+  async entries<T>(namespace: string): Promise<Array<[string, T]>> {
+    return Object.entries(await this.read(namespace)) as Array<[string, T]>
+  }
+
+  private filePath(namespace: string): string {
+    return path.join(this.dir, `${namespace.replace(/[^\w-]/g, "_")}.json`)
+  }
+
+  private async read(namespace: string): Promise<Record<string, unknown>> {
+    try {
+      const raw = await fs.readFile(this.filePath(namespace), "utf8")
+      return JSON.parse(raw)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {}
+      throw error
+    }
+  }
+
+  // Write to a temp file and rename so readers never see a partial file
+  private async write(namespace: string, data: Record<string, unknown>): Promise<void> {
+    const target = this.filePath(namespace)
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(temp, JSON.stringify(data))
+    await fs.rename(temp, target)
+  }
+
+  // Cross-process lock using an exclusively created lock file
+  private async withLock(namespace: string, fn: () => Promise<void>): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    const lockPath = `${this.filePath(namespace)}.lock`
+
+    while (true) {
+      try {
+        const handle = await fs.open(lockPath, "wx")
+        await handle.close()
+        break
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error
+
+        // Break locks left behind by a crashed process
+        const stat = await fs.stat(lockPath).catch(() => null)
+        if (stat && Date.now() - stat.mtimeMs > FileStorage.LOCK_STALE_MS) {
+          await fs.unlink(lockPath).catch(() => {})
+          continue
+        }
+        await new Promise((resolve) => setTimeout(resolve, FileStorage.LOCK_RETRY_MS))
+      }
+    }
+
+    try {
+      await fn()
+    } finally {
+      await fs.unlink(lockPath).catch(() => {})
+    }
+  }
+}
+
+// ============================================
+// Shared Instance
+// ============================================
+
+// Route handlers are bundled separately, so the instance lives on
+// globalThis to make sure every route in a process shares one backend.
+const globalForStorage = globalThis as unknown as { __surikadoStorage?: StorageBackend }
+
+export function getStorage(): StorageBackend {
+  if (!globalForStorage.__surikadoStorage) {
+    const { backend, dir } = getConfig().storage
+    if (backend === "file") {
+      console.log(`[Storage] Using file storage at ${dir}`)
+      globalForStorage.__surikadoStorage = new FileStorage(dir)
+    } else {
+      console.log(`[Storage] Using in-memory storage`)
+      globalForStorage.__surikadoStorage = new MemoryStorage()
+    }
+  }
+  return globalForStorage.__surikadoStorage
+}
@@ -0,0 +1,233 @@
+import crypto from "crypto"
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ConfigError, loadConfig } from "@/lib/config"
+
+// Signatures are computed here with plain HMACs, independently of the module
+// under test, the way Twilio documents them
+const AUTH_TOKEN = "test-auth-token"
+const URL_BASE = "https://bot.example.com/api/webhook"
+
+const hmac = (data: string, token = AUTH_TOKEN) => crypto.createHmac("sha1", token).update(data).digest("base64")
+const sha256 = (data: string) => crypto.createHash("sha256").update(data).digest("hex")
+
+function formSignature(url: string, params: Array<[string, string]>, token = AUTH_TOKEN): string {
+  const sorted = [...params].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return hmac(url + sorted.map(([key, value]) => key + value).join(""), token)
+}
+
+function post(url: string, body: string, headers: Record<string, string>): NextRequest {
+  return new NextRequest(url, { method: "POST", body, headers })
+}
+
+// getConfig() caches, so every test loads the modules afresh with its own env
+async function loadVerifier(env: Record<string, string>) {
+  vi.resetModules()
+  for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value)
+  return import("@/lib/twilio-signature")
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe("form-post webhooks", () => {
+  const params: Array<[string, string]> = [
+    ["MessageSid", "SM123"],
+    ["From", "whatsapp:+421900000000"],
+    ["To", "whatsapp:+16098034599"],
+    ["Body", "Hello there"],
+    ["NumMedia", "0"],
+  ]
+  const body = new URLSearchParams(params).toString()
+  const headers = { "content-type": "application/x-www-form-urlencoded" }
+
+  it("accepts a valid signature", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    const request = post(URL_BASE, body, { ...headers, "x-twilio-signature": formSignature(URL_BASE, params) })
+    expect(verifyTwilioRequest(request, body)).toEqual({ ok: true })
+  })
+
+  it("rejects a tampered body", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    const tampered = body.replace("Hello+there", "Injected")
+    const request = post(URL_BASE, tampered, { ...headers, "x-twilio-signature": formSignature(URL_BASE, params) })
+    expect(verifyTwilioRequest(request, tampered)).toMatchObject({ ok: false, status: 403 })
+  })
+
+  it("rejects a signature made with another token", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    const signature = formSignature(URL_BASE, params, "someone-else")
+    const request = post(URL_BASE, body, { ...headers, "x-twilio-signature": signature })
+    expect(verifyTwilioRequest(request, body)).toMatchObject({ ok: false, status: 403 })
+  })
+
+  it("rejects a missing signature", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    expect(verifyTwilioRequest(post(URL_BASE, body, headers), body)).toEqual({
+      ok: false,
+      status: 403,
+      error: "Missing X-Twilio-Signature header",
+    })
+  })
+
+  it("signs repeated parameters in order", async () => {
+    const { isValidTwilioSignature } = await loadVerifier({})
+    const repeated: Array<[string, string]> = [["MediaUrl", "a"], ["MediaUrl", "b"], ["Body", "x"]]
+    expect(
+      isValidTwilioSignature({
+        authToken: AUTH_TOKEN,
+        signature: formSignature(URL_BASE, repeated),
+        url: URL_BASE,
+        rawBody: new URLSearchParams(repeated).toString(),
+        contentType: headers["content-type"],
+      })
+    ).toBe(true)
+  })
+})
+
+describe("JSON webhooks with bodySHA256", () => {
+  const body = JSON.stringify({ specversion: "1.0", id: "EV1", type: "com.twilio.test", data: { body: "Hi" } })
+  const url = `${URL_BASE}?bodySHA256=${sha256(body)}`
+  const headers = { "content-type": "application/json" }
+
+  it("accepts a valid signature", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    const request = post(url, body, { ...headers, "x-twilio-signature": hmac(url) })
+    expect(verifyTwilioRequest(request, body)).toEqual({ ok: true })
+  })
+
+  it("rejects a body that doesn't match its hash", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    const tampered = body.replace("Hi", "Injected")
+    const request = post(url, tampered, { ...headers, "x-twilio-signature": hmac(url) })
+    expect(verifyTwilioRequest(request, tampered)).toMatchObject({ ok: false, status: 403 })
+  })
+
+  it("rejects a tampered hash in the URL", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    const tampered = body.replace("Hi", "Injected")
+    const forgedUrl = `${URL_BASE}?bodySHA256=${sha256(tampered)}`
+    const request = post(forgedUrl, tampered, { ...headers, "x-twilio-signature": hmac(url) })
+    expect(verifyTwilioRequest(request, tampered)).toMatchObject({ ok: false, status: 403 })
+  })
+
+  it("rejects a missing signature", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    expect(verifyTwilioRequest(post(url, body, headers), body)).toMatchObject({ ok: false, status: 403 })
+  })
+})
+
+describe("event webhooks", () => {
+  const body = JSON.stringify([{ specversion: "1.0", id: "EV2", type: "com.twilio.test", source: "/test" }])
+  const headers = { "content-type": "application/cloudevents-batch+json" }
+
+  it("accepts a valid signature over the URL and raw body", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    const request = post(URL_BASE, body, { ...headers, "x-twilio-signature": hmac(URL_BASE + body) })
+    expect(verifyTwilioRequest(request, body)).toEqual({ ok: true })
+  })
+
+  it("rejects a tampered body", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    const tampered = body.replace("EV2", "EV3")
+    const request = post(URL_BASE, tampered, { ...headers, "x-twilio-signature": hmac(URL_BASE + body) })
+    expect(verifyTwilioRequest(request, tampered)).toMatchObject({ ok: false, status: 403 })
+  })
+
+  it("rejects a missing signature", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN })
+    expect(verifyTwilioRequest(post(URL_BASE, body, headers), body)).toMatchObject({ ok: false, status: 403 })
+  })
+
+  it("verifies against TWILIO_WEBHOOK_URL behind a proxy", async () => {
+    const publicUrl = "https://public.example.com/api/webhook"
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN, TWILIO_WEBHOOK_URL: publicUrl })
+    const request = post("http://internal:3000/api/webhook", body, {
+      ...headers,
+      "x-twilio-signature": hmac(publicUrl + body),
+    })
+    expect(verifyTwilioRequest(request, body)).toEqual({ ok: true })
+  })
+})
+
+describe("status callbacks", () => {
+  const params: Array<[string, string]> = [
+    ["MessageSid", "SM404"],
+    ["MessageStatus", "delivered"],
+  ]
+  const body = new URLSearchParams(params).toString()
+  const headers = { "content-type": "application/x-www-form-urlencoded" }
+  const internal = "http://internal:3000/api/message-status"
+
+  it("verifies against the route's own URL next to TWILIO_WEBHOOK_URL", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({
+      TWILIO_AUTH_TOKEN: AUTH_TOKEN,
+      TWILIO_WEBHOOK_URL: "https://public.example.com/bot/api/webhook",
+    })
+    const signature = formSignature("https://public.example.com/bot/api/message-status", params)
+    expect(verifyTwilioRequest(post(internal, body, { ...headers, "x-twilio-signature": signature }), body)).toEqual({
+      ok: true,
+    })
+  })
+
+  it("is accepted by /api/message-status with TWILIO_WEBHOOK_URL set", async () => {
+    await loadVerifier({ TWILIO_AUTH_TOKEN: AUTH_TOKEN, TWILIO_WEBHOOK_URL: "https://public.example.com/api/webhook" })
+    const { POST } = await import("@/app/api/message-status/route")
+    const signature = formSignature("https://public.example.com/api/message-status", params)
+
+    const response = await POST(post(internal, body, { ...headers, "x-twilio-signature": signature }))
+    // Signature accepted; the message just isn't one this app sent
+    expect(response.status).toBe(404)
+  })
+
+  it("uses MESSAGING_STATUS_CALLBACK_URL when it is set", async () => {
+    const callbackUrl = "https://hooks.example.com/status?source=twilio"
+    await loadVerifier({
+      TWILIO_AUTH_TOKEN: AUTH_TOKEN,
+      TWILIO_WEBHOOK_URL: "https://public.example.com/api/webhook",
+      MESSAGING_STATUS_CALLBACK_URL: callbackUrl,
+    })
+    const { POST } = await import("@/app/api/message-status/route")
+
+    const signed = post(internal, body, { ...headers, "x-twilio-signature": formSignature(callbackUrl, params) })
+    expect((await POST(signed)).status).toBe(404)
+
+    const forWebhook = formSignature("https://public.example.com/api/webhook", params)
+    expect((await POST(post(internal, body, { ...headers, "x-twilio-signature": forWebhook }))).status).toBe(403)
+  })
+})
+
+describe("configuration", () => {
+  it("rejects every request when no auth token is configured", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({})
+    const request = post(URL_BASE, "{}", { "content-type": "application/json", "x-twilio-signature": "x" })
+    expect(verifyTwilioRequest(request, "{}")).toMatchObject({ ok: false, status: 503 })
+  })
+
+  it("skips verification with the dev bypass outside production", async () => {
+    const { verifyTwilioRequest } = await loadVerifier({ TWILIO_SKIP_SIGNATURE_VALIDATION: "true", NODE_ENV: "development" })
+    expect(verifyTwilioRequest(post(URL_BASE, "{}", {}), "{}")).toEqual({ ok: true })
+  })
+
+  it("refuses the dev bypass in production", () => {
+    expect(() => loadConfig({ TWILIO_SKIP_SIGNATURE_VALIDATION: "true", NODE_ENV: "production" })).toThrow(ConfigError)
+    expect(() => loadConfig({ TWILIO_SKIP_SIGNATURE_VALIDATION: "1", NODE_ENV: "production" })).toThrow(
+      /skipSignatureValidation: not allowed when NODE_ENV=production/
+    )
+  })
+
+  it("refuses the dev bypass in production even with a valid token configured", async () => {
+    await expect(
+      loadVerifier({ TWILIO_SKIP_SIGNATURE_VALIDATION: "true", NODE_ENV: "production", TWILIO_AUTH_TOKEN: AUTH_TOKEN }).then(
+        ({ verifyTwilioRequest }) => verifyTwilioRequest(post(URL_BASE, "{}", {}), "{}")
+      )
+    ).rejects.toThrow(/skipSignatureValidation: not allowed when NODE_ENV=production/)
+  })
+})
@@ -0,0 +1,138 @@
+import crypto from "crypto"
+import type { NextRequest } from "next/server"
+import { getConfig } from "@/lib/config"
+
+// ============================================
+// Signature Computation
+// ============================================
+
+// Classic webhooks: HMAC-SHA1 over the full URL followed by every POST
+// parameter, sorted by name, as name+value. Base64 encoded.
+export function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string | string[]> = {}
+): string {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => {
+      const value = params[key]
+      const values = Array.isArray(value) ? value : [value]
+      return acc + values.map((item) => `${key}${item}`).join("")
+    }, url)
+
+  return crypto.createHmac("sha1", authToken).update(Buffer.from(data, "utf-8")).digest("base64")
+}
+
+// JSON webhooks: Twilio adds ?bodySHA256=<hex> to the URL and signs the URL alone
+export function computeBodyHash(rawBody: string): string {
+  return crypto.createHash("sha256").update(rawBody).digest("hex")
+}
+
+// Event Streams / CloudEvents sinks without bodySHA256: the URL followed by the raw body
+export function computeEventSignature(authToken: string, url: string, rawBody: string): string {
+  return crypto.createHmac("sha1", authToken).update(Buffer.from(url + rawBody, "utf-8")).digest("base64")
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+// ============================================
+// Verification
+// ============================================
+
+export interface SignedRequest {
+  authToken: string
+  signature: string
+  url: string
+  rawBody: string
+  contentType: string
+}
+
+export function isValidTwilioSignature({ authToken, signature, url, rawBody, contentType }: SignedRequest): boolean {
+  if (!signature) return false
+
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    const params: Record<string, string | string[]> = {}
+    for (const [key, value] of new URLSearchParams(rawBody)) {
+      const existing = params[key]
+      params[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value]
+    }
+    return safeEqual(computeTwilioSignature(authToken, url, params), signature)
+  }
+
+  const bodySHA256 = new URL(url).searchParams.get("bodySHA256")
+  if (bodySHA256) {
+    return (
+      safeEqual(computeTwilioSignature(authToken, url), signature) &&
+      safeEqual(computeBodyHash(rawBody), bodySHA256)
+    )
+  }
+
+  return safeEqual(computeEventSignature(authToken, url, rawBody), signature)
+}
+
+// The URL Twilio called. Behind a proxy the host/proto come from the
+// forwarded headers, or from TWILIO_WEBHOOK_URL when set explicitly.
+export function getSignedUrl(request: NextRequest, publicUrl?: string): string {
+  const search = request.nextUrl.search
+  if (publicUrl) {
+    return publicUrl.includes("?") || !search ? publicUrl : `${publicUrl}${search}`
+  }
+
+  const proto = request.headers.get("x-forwarded-proto") || request.nextUrl.protocol.replace(":", "")
+  const host = request.headers.get("x-forwarded-host") || request.headers.get("host") || request.nextUrl.host
+  return `${proto}://${host}${request.nextUrl.pathname}${search}`
+}
+
+// TWILIO_WEBHOOK_URL is the public URL of /api/webhook. Other routes Twilio
+// calls sit next to it, behind the same proxy and any path prefix it adds.
+export function siblingPublicUrl(webhookUrl: string | undefined, pathname: string): string | undefined {
+  if (!webhookUrl) return undefined
+  const url = new URL(webhookUrl)
+  const prefix = url.pathname.endsWith("/api/webhook") ? url.pathname.slice(0, -"/api/webhook".length) : ""
+  return `${url.origin}${prefix}${pathname}`
+}
+
+export type VerificationResult = { ok: true } | { ok: false; status: number; error: string }
+
+// Checks X-Twilio-Signature against the configured auth token. `publicUrl`
+// is the URL Twilio was given for this route; it defaults to the one derived
+// from TWILIO_WEBHOOK_URL. The explicit dev bypass
+// (TWILIO_SKIP_SIGNATURE_VALIDATION) is refused in production by the config
+// module.
+export function verifyTwilioRequest(request: NextRequest, rawBody: string, publicUrl?: string): VerificationResult {
+  const { twilio } = getConfig()
+
+  if (twilio.skipSignatureValidation) {
+    console.warn("[Signature] ⚠️ Signature validation skipped (dev bypass)")
+    return { ok: true }
+  }
+
+  if (!twilio.authToken) {
+    console.error("[Signature] TWILIO_AUTH_TOKEN is not configured, rejecting request")
+    return { ok: false, status: 503, error: "Webhook signature validation is not configured" }
+  }
+
+  const signature = request.headers.get("x-twilio-signature")
+  if (!signature) {
+    return { ok: false, status: 403, error: "Missing X-Twilio-Signature header" }
+  }
+
+  const valid = isValidTwilioSignature({
+    authToken: twilio.authToken,
+    signature,
+    url: getSignedUrl(request, publicUrl ?? siblingPublicUrl(twilio.webhookUrl, request.nextUrl.pathname)),
+    rawBody,
+    contentType: request.headers.get("content-type") || "",
+  })
+
+  if (!valid) {
+    console.warn("[Signature] ❌ Invalid X-Twilio-Signature")
+    return { ok: false, status: 403, error: "Invalid X-Twilio-Signature" }
+  }
+  return { ok: true }
+}
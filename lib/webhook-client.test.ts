@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { AppConfig } from "@/lib/config"
+import { WebhookClient } from "@/lib/webhook-client"
+
+const twilio = { accountSid: "AC123", messagingServiceSid: "MG123" } as AppConfig["twilio"]
+const URL = "https://n8n.example.com/webhook/intake"
+
+// Counts the abort listeners a signal holds
+function trackedSignal() {
+  const controller = new AbortController()
+  let listeners = 0
+  const add = controller.signal.addEventListener.bind(controller.signal)
+  const remove = controller.signal.removeEventListener.bind(controller.signal)
+  vi.spyOn(controller.signal, "addEventListener").mockImplementation((...args: Parameters<typeof add>) => {
+    listeners++
+    add(...args)
+  })
+  vi.spyOn(controller.signal, "removeEventListener").mockImplementation((...args: Parameters<typeof remove>) => {
+    listeners--
+    remove(...args)
+  })
+  return { signal: controller.signal, listeners: () => listeners }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("WebhookClient", () => {
+  it("returns the bot's reply", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("Hello from the bot")))
+    const result = await new WebhookClient([URL], twilio).sendToWebhook("whatsapp:+421900000000", "Hi", "req-1", 1000)
+    expect(result).toMatchObject({ ok: true, message: "Hello from the bot" })
+  })
+
+  it("cleans up its timer and abort listener when the call succeeds", async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("ok")))
+    const { signal, listeners } = trackedSignal()
+
+    await new WebhookClient([URL], twilio).sendToWebhook("whatsapp:+421900000000", "Hi", "req-1", 1000, signal)
+    expect(vi.getTimerCount()).toBe(0)
+    expect(listeners()).toBe(0)
+  })
+
+  it("cleans up its timer and abort listener when the call fails", async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")))
+    const { signal, listeners } = trackedSignal()
+
+    const result = await new WebhookClient([URL], twilio).sendToWebhook("whatsapp:+421900000000", "Hi", "req-1", 1000, signal)
+    expect(result.ok).toBe(false)
+    expect(vi.getTimerCount()).toBe(0)
+    expect(listeners()).toBe(0)
+  })
+})
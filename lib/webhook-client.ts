@@ -0,0 +1,343 @@
+import { buildEnvelope, channelOfIdentity, getChannelAdapter } from "@/lib/channels"
+import { parseBotReply, textToBlocks, type BotReply } from "@/lib/bot-reply"
+import { getConfig, type AppConfig } from "@/lib/config"
+
+// ============================================
+// Types
+// ============================================
+
+export interface WebhookResult {
+  ok: boolean
+  message: string
+  reply?: BotReply
+  duration?: number
+  error?: string
+  status?: string
+  cancelled?: boolean
+}
+
+export type BreakerState = "closed" | "open" | "half-open"
+
+export interface EndpointHealth {
+  url: string
+  state: BreakerState
+  successRate: number
+  averageLatencyMs: number | null
+  consecutiveFailures: number
+  totalCalls: number
+  lastError?: string
+  lastSuccessAt?: number
+  lastFailureAt?: number
+  retryAt?: number
+}
+
+interface EndpointStats {
+  url: string
+  state: BreakerState
+  recentOutcomes: boolean[]
+  averageLatencyMs: number | null
+  consecutiveFailures: number
+  totalCalls: number
+  probeInFlight: boolean
+  lastError?: string
+  lastSuccessAt?: number
+  lastFailureAt?: number
+  retryAt?: number
+}
+
+// ============================================
+// Circuit Breaker Configuration
+// ============================================
+
+const BREAKER = {
+  FAILURE_THRESHOLD: 3, // Consecutive failures before the circuit opens
+  BASE_COOLDOWN: 15000, // First open period, doubled on every further failure
+  MAX_COOLDOWN: 600000, // Never keep an endpoint closed off for more than 10 minutes
+  RETRY_BASE_DELAY: 500, // Backoff before trying the next endpoint
+  RETRY_MAX_DELAY: 4000,
+  OUTCOME_WINDOW: 20, // Calls considered for the success rate
+  LATENCY_SMOOTHING: 0.3, // Weight of the newest sample in the latency average
+}
+
+// Full jitter: a random delay between 0 and the capped exponential value
+export function backoffWithJitter(attempt: number, baseMs: number, maxMs: number): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt)
+  return Math.floor(Math.random() * ceiling)
+}
+
+// ============================================
+// Enhanced Webhook Communication
+// ============================================
+
+export class WebhookClient {
+  private readonly stats: EndpointStats[]
+
+  constructor(endpoints: string[], private readonly twilio: AppConfig["twilio"]) {
+    this.stats = endpoints.map((url) => ({
+      url,
+      state: "closed",
+      recentOutcomes: [],
+      averageLatencyMs: null,
+      consecutiveFailures: 0,
+      totalCalls: 0,
+      probeInFlight: false,
+    }))
+  }
+
+  async sendToWebhook(
+    userPhone: string,
+    userMessage: string,
+    requestId: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<WebhookResult> {
+    const payload = this.createWebhookPayload(userPhone, userMessage, requestId)
+    const candidates = this.pickEndpoints()
+
+    if (candidates.length === 0) {
+      console.log(`[Webhook] ⛔ All circuits open, failing fast`)
+      return {
+        ok: false,
+        message: "Unable to reach webhook after all attempts",
+        error: "All webhook endpoints are unavailable (circuit open)",
+      }
+    }
+
+    // Try the healthiest endpoint first, backing off between attempts
+    for (const [attempt, endpoint] of candidates.entries()) {
+      if (attempt > 0) {
+        await this.delay(backoffWithJitter(attempt - 1, BREAKER.RETRY_BASE_DELAY, BREAKER.RETRY_MAX_DELAY))
+      }
+      if (signal?.aborted) return this.cancelledResult()
+
+      console.log(`[Webhook] 🔄 Trying endpoint: ${endpoint.url} (${endpoint.state})`)
+      if (endpoint.state === "half-open") endpoint.probeInFlight = true
+
+      const result = await this.attemptWebhookCall(endpoint.url, payload, timeoutMs, signal)
+
+      // A caller cancelling says nothing about the endpoint's health
+      if (signal?.aborted) {
+        endpoint.probeInFlight = false
+        return this.cancelledResult()
+      }
+      this.recordOutcome(endpoint, result)
+
+      if (result.ok) {
+        console.log(`[Webhook] ✅ Success with endpoint: ${endpoint.url}`)
+        return result
+      }
+
+      console.log(`[Webhook] ❌ Endpoint failed: ${endpoint.url}, error: ${result.error}`)
+    }
+
+    return {
+      ok: false,
+      message: "Unable to reach webhook after all attempts",
+      error: "All webhook endpoints failed",
+    }
+  }
+
+  private cancelledResult(): WebhookResult {
+    console.log(`[Webhook] 🛑 Cancelled by caller`)
+    return {
+      ok: false,
+      message: "Request cancelled",
+      error: "Cancelled",
+      cancelled: true,
+    }
+  }
+
+  // Breaker state and health of every endpoint, for debugging
+  getHealth(): EndpointHealth[] {
+    return this.stats.map((endpoint) => ({
+      url: endpoint.url,
+      state: this.currentState(endpoint),
+      successRate: this.successRate(endpoint),
+      averageLatencyMs: endpoint.averageLatencyMs === null ? null : Math.round(endpoint.averageLatencyMs),
+      consecutiveFailures: endpoint.consecutiveFailures,
+      totalCalls: endpoint.totalCalls,
+      lastError: endpoint.lastError,
+      lastSuccessAt: endpoint.lastSuccessAt,
+      lastFailureAt: endpoint.lastFailureAt,
+      retryAt: endpoint.retryAt,
+    }))
+  }
+
+  // Moves open circuits whose cooldown has passed to half-open
+  private currentState(endpoint: EndpointStats): BreakerState {
+    if (endpoint.state === "open" && endpoint.retryAt !== undefined && Date.now() >= endpoint.retryAt) {
+      endpoint.state = "half-open"
+      endpoint.probeInFlight = false
+      console.log(`[Webhook] 🟡 Circuit half-open for ${endpoint.url}`)
+    }
+    return endpoint.state
+  }
+
+  private successRate(endpoint: EndpointStats): number {
+    if (endpoint.recentOutcomes.length === 0) return 1
+    const successes = endpoint.recentOutcomes.filter(Boolean).length
+    return successes / endpoint.recentOutcomes.length
+  }
+
+  // Closed circuits first, then half-open probes; within each group the
+  // best success rate wins and latency breaks ties
+  private pickEndpoints(): EndpointStats[] {
+    const stateRank: Record<BreakerState, number> = { closed: 0, "half-open": 1, open: 2 }
+
+    return this.stats
+      .filter((endpoint) => {
+        const state = this.currentState(endpoint)
+        if (state === "open") return false
+        if (state === "half-open") return !endpoint.probeInFlight
+        return true
+      })
+      .sort((a, b) =>
+        stateRank[a.state] - stateRank[b.state] ||
+        this.successRate(b) - this.successRate(a) ||
+        (a.averageLatencyMs ?? Infinity) - (b.averageLatencyMs ?? Infinity)
+      )
+  }
+
+  private recordOutcome(endpoint: EndpointStats, result: WebhookResult): void {
+    const now = Date.now()
+    endpoint.totalCalls++
+    endpoint.probeInFlight = false
+    endpoint.recentOutcomes.push(result.ok)
+    if (endpoint.recentOutcomes.length > BREAKER.OUTCOME_WINDOW) endpoint.recentOutcomes.shift()
+
+    if (result.duration !== undefined) {
+      endpoint.averageLatencyMs = endpoint.averageLatencyMs === null
+        ? result.duration
+        : endpoint.averageLatencyMs + BREAKER.LATENCY_SMOOTHING * (result.duration - endpoint.averageLatencyMs)
+    }
+
+    if (result.ok) {
+      if (endpoint.state !== "closed") console.log(`[Webhook] 🟢 Circuit closed for ${endpoint.url}`)
+      endpoint.state = "closed"
+      endpoint.consecutiveFailures = 0
+      endpoint.retryAt = undefined
+      endpoint.lastSuccessAt = now
+      return
+    }
+
+    endpoint.consecutiveFailures++
+    endpoint.lastFailureAt = now
+    endpoint.lastError = result.error
+
+    // A failed probe re-opens straight away; otherwise open at the threshold
+    if (endpoint.state === "half-open" || endpoint.consecutiveFailures >= BREAKER.FAILURE_THRESHOLD) {
+      const opens = Math.max(0, endpoint.consecutiveFailures - BREAKER.FAILURE_THRESHOLD)
+      const cooldown = Math.min(BREAKER.MAX_COOLDOWN, BREAKER.BASE_COOLDOWN * 2 ** opens)
+      // Jitter the cooldown so workers don't all probe at the same moment
+      const jitter = Math.floor(Math.random() * cooldown * 0.2)
+      endpoint.state = "open"
+      endpoint.retryAt = now + cooldown + jitter
+      console.log(`[Webhook] 🔴 Circuit open for ${endpoint.url} until ${new Date(endpoint.retryAt).toISOString()}`)
+    }
+  }
+
+  private async attemptWebhookCall(
+    url: string,
+    payload: any,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<WebhookResult> {
+    const startTime = Date.now()
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => {
+      console.log(`[Webhook] ⏱️ Timeout after ${timeoutMs}ms`)
+      controller.abort()
+    }, timeoutMs)
+
+    // Let the caller abort the outbound fetch too
+    const onCancel = () => controller.abort()
+    signal?.addEventListener("abort", onCancel, { once: true })
+
+    try {
+      console.log(`[Webhook] 📡 Calling ${url} (timeout: ${timeoutMs}ms)`)
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { 
+          "Content-Type": "application/json",
+          "Accept": "application/json, text/plain, */*"
+        },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      })
+
+      const duration = Date.now() - startTime
+
+      if (response.ok) {
+        const responseText = await response.text()
+        console.log(`[Webhook] ✅ Success in ${duration}ms, status: ${response.status}, response:`, responseText)
+
+        // Keep the structure n8n sent (buttons, lists, links, media)
+        let reply = parseBotReply(responseText)
+        let message = reply.text
+
+        // Clean up the message - remove empty or generic responses
+        if (reply.blocks.length === 0 || message.trim() === "" || message === "success" || message === "Success") {
+          message = "Thank you for your message! I've received your information and will help you find the best opportunities."
+          reply = { text: message, blocks: textToBlocks(message) }
+        }
+
+        return { ok: true, message, reply, duration }
+      }
+
+      // Handle non-200 responses
+      console.log(`[Webhook] ❌ Failed with status ${response.status} in ${duration}ms`)
+      return {
+        ok: false,
+        message: `Webhook returned status ${response.status}`,
+        duration,
+        error: `HTTP ${response.status}`,
+      }
+
+    } catch (error) {
+      const duration = Date.now() - startTime
+      const isTimeout = error instanceof Error && 
+        (error.name === "AbortError" || error.message.includes("aborted"))
+      
+      const errorMsg = isTimeout ? "Timeout" : error instanceof Error ? error.message : "Unknown error"
+      console.log(`[Webhook] ⚠️ Error in ${duration}ms: ${errorMsg}`)
+
+      return {
+        ok: false,
+        message: errorMsg,
+        duration,
+        error: errorMsg,
+      }
+    } finally {
+      // Also covers reading the body, and failed attempts
+      clearTimeout(timeoutId)
+      signal?.removeEventListener("abort", onCancel)
+    }
+  }
+
+  // The sender's identity carries its channel (whatsapp:, telegram:, web:, bare number for SMS)
+  private createWebhookPayload(userPhone: string, userMessage: string, requestId: string) {
+    const adapter = getChannelAdapter(channelOfIdentity(userPhone))
+    return buildEnvelope(adapter, { id: requestId, from: userPhone, body: userMessage }, this.twilio)
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+  }
+}
+
+// ============================================
+// Shared Instance
+// ============================================
+
+// Kept on globalThis so breaker state is shared by every route in the process
+const globalForWebhook = globalThis as unknown as { __surikadoWebhookClient?: WebhookClient }
+
+export function getWebhookClient(): WebhookClient {
+  if (!globalForWebhook.__surikadoWebhookClient) {
+    const config = getConfig()
+    globalForWebhook.__surikadoWebhookClient = new WebhookClient(config.n8n.webhookUrls, config.twilio)
+  }
+  return globalForWebhook.__surikadoWebhookClient
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { currentYearMonth, monthsBetween, parseYearMonth, toIsoYearMonth } from "@/lib/year-month"
+
+const iso = (text: string) => {
+  const parsed = parseYearMonth(text)
+  return parsed?.kind === "date" ? toIsoYearMonth(parsed.date) : parsed?.kind ?? null
+}
+
+describe("parseYearMonth", () => {
+  it.each([
+    ["January 2023", "2023-01"],
+    ["Jan 2023", "2023-01"],
+    ["ene. 2023", "2023-01"],
+    ["enero de 2023", "2023-01"],
+    ["März 2020", "2020-03"],
+    ["août 2019", "2019-08"],
+    ["septembra 2018", "2018-09"],
+    ["2023-01", "2023-01"],
+    ["2023/1", "2023-01"],
+    ["01/2023", "2023-01"],
+    ["1.2023", "2023-01"],
+    ["2023", "2023"],
+  ])("reads %s", (text, expected) => {
+    expect(iso(text)).toBe(expected)
+  })
+
+  it.each(["present", "Now", "heute", "actualmente", "aujourd’hui", "doteraz"])("reads %s as the present", (text) => {
+    expect(parseYearMonth(text)).toEqual({ kind: "present" })
+  })
+
+  it.each(["13/2023", "2023-13", "Smarch 2023", "last year", "", null])("rejects %s", (text) => {
+    expect(parseYearMonth(text)).toBeNull()
+  })
+})
+
+describe("monthsBetween", () => {
+  it("counts both ends", () => {
+    expect(monthsBetween({ year: 2023, month: 1 }, { year: 2023, month: 3 })).toBe(3)
+  })
+
+  it("takes a bare year as mid-year", () => {
+    expect(monthsBetween({ year: 2019, month: null }, { year: 2021, month: null })).toBe(25)
+  })
+
+  it("never goes negative", () => {
+    expect(monthsBetween({ year: 2023, month: 5 }, { year: 2022, month: 1 })).toBe(0)
+  })
+})
+
+describe("currentYearMonth", () => {
+  it("uses the UTC month", () => {
+    expect(currentYearMonth(new Date("2026-12-31T23:30:00-05:00"))).toEqual({ year: 2027, month: 1 })
+  })
+})
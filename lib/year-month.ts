@@ -0,0 +1,110 @@
+// ============================================
+// Types
+// ============================================
+
+// A month, or only a year when the text gave no month
+export interface YearMonth {
+  year: number
+  // 1-12, null when unknown
+  month: number | null
+}
+
+export type ParsedDate = { kind: "date"; date: YearMonth } | { kind: "present" }
+
+// ============================================
+// Vocabulary
+// ============================================
+
+// Month names and common abbreviations in the languages candidates write in:
+// English, Spanish, Portuguese, French, German, Italian, Dutch and Slovak
+const MONTH_NAMES: string[][] = [
+  ["january", "jan", "enero", "ene", "janeiro", "janvier", "janv", "januar", "jänner", "gennaio", "gen", "januari", "január"],
+  ["february", "feb", "febrero", "fevereiro", "fev", "février", "févr", "fevr", "februar", "febbraio", "februari", "február"],
+  ["march", "mar", "marzo", "março", "mars", "märz", "maerz", "maart", "marec"],
+  ["april", "apr", "abril", "abr", "avril", "avr", "aprile", "apríl"],
+  ["may", "mayo", "maio", "mai", "maggio", "mag", "mei", "máj"],
+  ["june", "jun", "junio", "junho", "juin", "juni", "giugno", "giu", "jún"],
+  ["july", "jul", "julio", "julho", "juillet", "juil", "juli", "luglio", "lug", "júl"],
+  ["august", "aug", "agosto", "ago", "août", "aout", "augustus"],
+  ["september", "sep", "sept", "septiembre", "setembro", "set", "septembre", "settembre", "septembra"],
+  ["october", "oct", "octubre", "outubro", "out", "octobre", "oktober", "okt", "ottobre", "ott", "október"],
+  ["november", "nov", "noviembre", "novembro", "novembre", "novembra"],
+  ["december", "dec", "diciembre", "dic", "dezembro", "dez", "décembre", "déc", "dezember", "dicembre", "dicembra"],
+]
+
+const MONTH_INDEX = new Map<string, number>()
+MONTH_NAMES.forEach((names, index) => names.forEach((name) => MONTH_INDEX.set(name, index + 1)))
+
+// "Until now" in the same languages
+const PRESENT_WORDS = [
+  "present", "now", "current", "currently", "today", "ongoing", "to date", "to this day",
+  "actualidad", "actualmente", "presente", "hoy",
+  "atual", "atualmente", "hoje",
+  "présent", "aujourd'hui", "actuel", "actuellement",
+  "heute", "jetzt", "aktuell", "derzeit", "laufend",
+  "oggi", "attuale", "attualmente",
+  "heden", "nu", "huidig",
+  "súčasnosť", "teraz", "doteraz",
+]
+
+// Regex sources for building larger patterns
+export const PRESENT_PATTERN = PRESENT_WORDS.map((word) => word.replace(/'/g, "['’]")).join("|")
+export const MONTH_NAME_PATTERN = [...MONTH_INDEX.keys()].sort((a, b) => b.length - a.length).join("|")
+
+// ============================================
+// Parsing
+// ============================================
+
+function validMonth(month: number): boolean {
+  return month >= 1 && month <= 12
+}
+
+// "January 2023", "ene. 2023", "enero de 2023", "März 2020", "2023-01",
+// "01/2023", "1.2023", "2023/01", "2023", "present", "heute", ...
+// Returns null for anything else.
+export function parseYearMonth(text: string | null | undefined): ParsedDate | null {
+  if (!text) return null
+  const value = text.trim().toLowerCase().replace(/’/g, "'")
+
+  if (PRESENT_WORDS.includes(value)) return { kind: "present" }
+
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})$/)
+  if (match && validMonth(Number(match[2]))) {
+    return { kind: "date", date: { year: Number(match[1]), month: Number(match[2]) } }
+  }
+
+  match = value.match(/^(\d{1,2})[-/.](\d{4})$/)
+  if (match && validMonth(Number(match[1]))) {
+    return { kind: "date", date: { year: Number(match[2]), month: Number(match[1]) } }
+  }
+
+  match = value.match(/^([a-zà-ÿčďľňŕšťž]+)\.?\s+(?:de\s+|del\s+)?(\d{4})$/)
+  if (match && MONTH_INDEX.has(match[1])) {
+    return { kind: "date", date: { year: Number(match[2]), month: MONTH_INDEX.get(match[1])! } }
+  }
+
+  match = value.match(/^(\d{4})$/)
+  if (match) return { kind: "date", date: { year: Number(match[1]), month: null } }
+
+  return null
+}
+
+// ISO 8601: "2023-01", or "2023" when the month is unknown
+export function toIsoYearMonth(date: YearMonth): string {
+  return date.month === null ? String(date.year) : `${date.year}-${String(date.month).padStart(2, "0")}`
+}
+
+export function currentYearMonth(now: Date = new Date()): YearMonth {
+  return { year: now.getUTCFullYear(), month: now.getUTCMonth() + 1 }
+}
+
+// Month number counted from year 0. A bare year counts as mid-year, so
+// "2019 - 2021" comes out at about two years rather than one or three.
+export function monthIndex(date: YearMonth): number {
+  return date.year * 12 + ((date.month ?? 7) - 1)
+}
+
+// Whole months from start to end, counting both (Jan-Mar is 3)
+export function monthsBetween(start: YearMonth, end: YearMonth): number {
+  return Math.max(0, monthIndex(end) - monthIndex(start) + 1)
+}